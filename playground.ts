@@ -38,28 +38,16 @@ const presence = new PresenceBuilder()
   .setParty('party1234', 1, 4);
 // .setSecrets({ join: 'party1234_join' })
 // .addButton('Join Party', 'https://example.com/join');
-client.setActivity(presence.build());
+await client.setActivity(presence.build());
 
-// // 1. Get a code from the UI
-// const { code } = await client.authorize({
-//   clientId: DISCORD_CLIENT_ID,
-//   scopes: [Scope.RPC, Scope.Identify],
-//   args: { prompt: 'none' },
-// });
-// console.log('Authorization code:', code);
-
-// // 2. Exchange the code for a token
-// const { access_token } = await client.exchangeCode({
+// // Authorize, exchange the code and authenticate in one call (replaces the plain login above)
+// const { user, auth } = await client.login({
 //   clientId: DISCORD_CLIENT_ID,
 //   clientSecret: DISCORD_CLIENT_SECRET,
-//   redirectUri: 'http://localhost', // Ensure this matches the redirect URI used during authorization
-//   code,
+//   scopes: [Scope.RPC, Scope.Identify],
+//   redirectUri: 'http://localhost', // Ensure this matches a redirect URI of your application
 // });
-// console.log('Exchanged code for access token:', access_token);
-
-// // 3. Authenticate with the code to get an access token
-// const authResponse = await client.authenticate(access_token);
-// console.log('Authenticated as:', authResponse);
+// console.log('Authenticated as:', auth);
 
 // const relationships = await client.getRelationships();
 // console.log('User Relationships:', relationships);
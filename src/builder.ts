@@ -1,4 +1,53 @@
-import type { ActivityPayload, ActivityType, Assets, Timestamps } from './types';
+// Internal
+import { createLogger } from './logger';
+import { renderTemplate } from './template';
+import { codePointLength, deepClone, truncateText } from './utils';
+import { validateActivity } from './validation';
+// Types
+import type {
+  ActivityIssue,
+  ActivityPayload,
+  ActivityType,
+  Assets,
+  Button,
+  Logger,
+  LogLevel,
+  PresenceTemplate,
+  TemplateVariables,
+  Timestamps,
+} from './types';
+
+/**
+ * Options for the PresenceBuilder constructor
+ */
+export type PresenceBuilderOptions = {
+  /**
+   * Destination for warnings, or false to log nothing
+   * @default ConsoleLogger
+   */
+  logger?: Logger | false;
+  /**
+   * Minimum level to log
+   * @default LogLevel.Warn
+   */
+  logLevel?: LogLevel;
+  /**
+   * What to do with text exceeding Discord's limits: throw an Error, or shorten it without splitting
+   * emoji or combining sequences. Applies to details, state, image texts and button labels.
+   * @default 'throw'
+   */
+  overflow?: 'throw' | 'truncate';
+  /**
+   * Appended to truncated text
+   * @default '…'
+   */
+  ellipsis?: string;
+  /**
+   * Make every setter return a new builder and leave this one unchanged, so a base presence can be shared safely
+   * @default false
+   */
+  immutable?: boolean;
+};
 
 /**
  * Builder class for constructing Discord Rich Presence activity payloads.
@@ -9,14 +58,97 @@ export class PresenceBuilder {
    */
   private payload: Partial<ActivityPayload> = {};
 
+  /**
+   * Options the builder was created with, passed on to clones
+   */
+  private options?: PresenceBuilderOptions;
+
+  /**
+   * Logger for build warnings
+   */
+  private logger: Logger;
+
+  /**
+   * Whether text exceeding a limit is shortened instead of rejected
+   */
+  private truncate: boolean;
+
+  /**
+   * Appended to truncated text
+   */
+  private ellipsis: string;
+
+  /**
+   * Initializes a new presence builder.
+   * @example
+   * const builder = new PresenceBuilder({ overflow: 'truncate', ellipsis: '...' });
+   */
+  constructor(options?: PresenceBuilderOptions) {
+    this.options = options;
+    this.logger = createLogger(options?.logger, options?.logLevel);
+    this.truncate = options?.overflow === 'truncate';
+    this.ellipsis = options?.ellipsis ?? '…';
+  }
+
+  /**
+   * Creates a builder to edit an existing activity. The activity is copied, not modified.
+   * @param activity Activity payload to start from
+   * @param options Options for the new builder
+   * @returns A new PresenceBuilder holding a copy of the activity
+   * @example
+   * const builder = PresenceBuilder.from(savedActivity).setState('In a match');
+   */
+  static from(activity: ActivityPayload, options?: PresenceBuilderOptions): PresenceBuilder {
+    const builder = new PresenceBuilder(options);
+    builder.payload = deepClone(activity);
+    return builder;
+  }
+
+  /**
+   * Creates a builder from a template, filling its `{placeholders}` and resolving timestamp expressions.
+   * Texts go through the same length checks as the setters, so they throw or are truncated depending on `overflow`.
+   * @param template Template to render, see `PresenceTemplate`
+   * @param variables Values for the placeholders, fields using a missing variable are omitted
+   * @param options Options for the new builder
+   * @returns A new PresenceBuilder holding the rendered activity
+   * @throws Error if a text exceeds its limit and the builder doesn't truncate, or an expression can't be parsed
+   * @example
+   * const builder = PresenceBuilder.fromTemplate({ details: 'Playing {map}', timestamps: { start: 'now' } }, { map: 'Dust II' });
+   */
+  static fromTemplate(template: PresenceTemplate, variables?: TemplateVariables, options?: PresenceBuilderOptions): PresenceBuilder {
+    const { details, state, assets, buttons, ...rest } = renderTemplate(template, variables);
+    let builder = PresenceBuilder.from(rest, options);
+
+    // Run the texts through the setters for their length checks
+    if (details !== undefined) builder = builder.setDetails(details);
+    if (state !== undefined) builder = builder.setState(state);
+    if (assets !== undefined) builder = builder.setAssets(assets);
+    if (buttons !== undefined) builder = builder.setButtons(buttons);
+    return builder;
+  }
+
+  /**
+   * Creates an independent copy of the builder, eg. to branch variants of a base presence.
+   * @returns A new PresenceBuilder with the same options and a copy of the payload
+   * @example
+   * const base = new PresenceBuilder().setLargeImage('logo');
+   * const menu = base.clone().setDetails('In the menu');
+   */
+  clone(): this {
+    const builder = new PresenceBuilder(this.options) as this;
+    builder.payload = deepClone(this.payload);
+    return builder;
+  }
+
   /**
    * Sets the activity type (eg. Playing, Listening, Watching, Competing).
    * @param type Activity type as defined by Discord (0, 2, 3, 5)
    * @returns The PresenceBuilder instance for chaining
    */
   setType(type: ActivityType): this {
-    this.payload.type = type;
-    return this;
+    return this.edit((payload) => {
+      payload.type = type;
+    });
   }
 
   /**
@@ -24,17 +156,15 @@ export class PresenceBuilder {
    * @param details Details string (Max 128 chars)
    * @param url Optional URL when clicking the details text
    * @returns The PresenceBuilder instance for chaining
-   * @throws Error if details exceed character limit
+   * @throws Error if details exceed character limit, unless truncating
    */
   setDetails(details: string, url?: string): this {
-    if (details.length > 128) {
-      throw new Error('Details must be 128 characters or fewer.');
-    }
-    this.payload.details = details;
-    if (url) {
-      this.payload.details_url = url;
-    }
-    return this;
+    return this.edit((payload) => {
+      payload.details = this.fitText(details, 128, 'Details');
+      if (url) {
+        payload.details_url = url;
+      }
+    });
   }
 
   /**
@@ -42,17 +172,15 @@ export class PresenceBuilder {
    * @param state State string (Max 128 chars)
    * @param url Optional URL when clicking the state text
    * @returns The PresenceBuilder instance for chaining
-   * @throws Error if state exceeds character limit
+   * @throws Error if state exceeds character limit, unless truncating
    */
   setState(state: string, url?: string): this {
-    if (state.length > 128) {
-      throw new Error('State must be 128 characters or fewer.');
-    }
-    this.payload.state = state;
-    if (url) {
-      this.payload.state_url = url;
-    }
-    return this;
+    return this.edit((payload) => {
+      payload.state = this.fitText(state, 128, 'State');
+      if (url) {
+        payload.state_url = url;
+      }
+    });
   }
 
   /**
@@ -61,8 +189,9 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setTimestamps(timestamps: Timestamps): this {
-    this.payload.timestamps = timestamps;
-    return this;
+    return this.edit((payload) => {
+      payload.timestamps = timestamps;
+    });
   }
 
   /**
@@ -71,11 +200,12 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setStartTimestamp(date: number | Date): this {
-    this.payload.timestamps = {
-      ...this.payload.timestamps,
-      start: date instanceof Date ? date.getTime() : date,
-    };
-    return this;
+    return this.edit((payload) => {
+      payload.timestamps = {
+        ...payload.timestamps,
+        start: date instanceof Date ? date.getTime() : date,
+      };
+    });
   }
 
   /**
@@ -84,28 +214,28 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setEndTimestamp(date: number | Date): this {
-    this.payload.timestamps = {
-      ...this.payload.timestamps,
-      end: date instanceof Date ? date.getTime() : date,
-    };
-    return this;
+    return this.edit((payload) => {
+      payload.timestamps = {
+        ...payload.timestamps,
+        end: date instanceof Date ? date.getTime() : date,
+      };
+    });
   }
 
   /**
    * Sets the assets object directly.
    * @param assets Assets object with large_image, small_image, etc.
    * @returns The PresenceBuilder instance for chaining
-   * @throws Error if any text fields exceed character limits
+   * @throws Error if any text fields exceed character limits, unless truncating
    */
   setAssets(assets: Assets): this {
-    if (assets.large_text && assets.large_text.length > 128) {
-      throw new Error('Large text must be 128 characters or fewer.');
-    }
-    if (assets.small_text && assets.small_text.length > 128) {
-      throw new Error('Small text must be 128 characters or fewer.');
-    }
-    this.payload.assets = assets;
-    return this;
+    return this.edit((payload) => {
+      payload.assets = {
+        ...assets,
+        ...(assets.large_text && { large_text: this.fitText(assets.large_text, 128, 'Large text') }),
+        ...(assets.small_text && { small_text: this.fitText(assets.small_text, 128, 'Small text') }),
+      };
+    });
   }
 
   /**
@@ -114,19 +244,17 @@ export class PresenceBuilder {
    * @param text Optional tooltip text for the large image (Max 128 chars)
    * @param url Optional URL when the large image is clicked
    * @returns The PresenceBuilder instance for chaining
-   * @throws Error if text exceeds character limit
+   * @throws Error if text exceeds character limit, unless truncating
    */
   setLargeImage(key: string, text?: string, url?: string): this {
-    if (text && text.length > 128) {
-      throw new Error('Large image text must be 128 characters or fewer.');
-    }
-    this.payload.assets = {
-      ...this.payload.assets,
-      large_image: key,
-      large_text: text,
-      large_url: url,
-    };
-    return this;
+    return this.edit((payload) => {
+      payload.assets = {
+        ...payload.assets,
+        large_image: key,
+        large_text: text && this.fitText(text, 128, 'Large image text'),
+        large_url: url,
+      };
+    });
   }
 
   /**
@@ -135,19 +263,17 @@ export class PresenceBuilder {
    * @param text Optional tooltip text for the small image (Max 128 chars)
    * @param url Optional URL when the small image is clicked
    * @returns The PresenceBuilder instance for chaining
-   * @throws Error if text exceeds character limit
+   * @throws Error if text exceeds character limit, unless truncating
    */
   setSmallImage(key: string, text?: string, url?: string): this {
-    if (text && text.length > 128) {
-      throw new Error('Small image text must be 128 characters or fewer.');
-    }
-    this.payload.assets = {
-      ...this.payload.assets,
-      small_image: key,
-      small_text: text,
-      small_url: url,
-    };
-    return this;
+    return this.edit((payload) => {
+      payload.assets = {
+        ...payload.assets,
+        small_image: key,
+        small_text: text && this.fitText(text, 128, 'Small image text'),
+        small_url: url,
+      };
+    });
   }
 
   /**
@@ -158,8 +284,9 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setParty(id: string, current: number, max: number): this {
-    this.payload.party = { id, size: [current, max] };
-    return this;
+    return this.edit((payload) => {
+      payload.party = { id, size: [current, max] };
+    });
   }
 
   /**
@@ -168,8 +295,9 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setSecrets(secrets: { join?: string; spectate?: string; match?: string }): this {
-    this.payload.secrets = secrets;
-    return this;
+    return this.edit((payload) => {
+      payload.secrets = secrets;
+    });
   }
 
   /**
@@ -178,8 +306,9 @@ export class PresenceBuilder {
    * @returns The PresenceBuilder instance for chaining
    */
   setInstance(instance: boolean): this {
-    this.payload.instance = instance;
-    return this;
+    return this.edit((payload) => {
+      payload.instance = instance;
+    });
   }
 
   /**
@@ -189,14 +318,12 @@ export class PresenceBuilder {
    * @throws Error if more than 2 buttons are provided or character limits are exceeded
    */
   setButtons(buttons: { label: string; url: string }[]): this {
-    if (buttons.length > 2) {
-      throw new Error('A maximum of 2 buttons are allowed.');
-    }
-    for (const btn of buttons) {
-      this.validateButton(btn.label, btn.url);
-    }
-    this.payload.buttons = buttons;
-    return this;
+    return this.edit((payload) => {
+      if (buttons.length > 2) {
+        throw new Error('A maximum of 2 buttons are allowed.');
+      }
+      payload.buttons = buttons.map((btn) => this.fitButton(btn.label, btn.url));
+    });
   }
 
   /**
@@ -207,40 +334,100 @@ export class PresenceBuilder {
    * @throws Error if button constraints are violated
    */
   addButton(label: string, url: string): this {
-    if (!this.payload.buttons) {
-      this.payload.buttons = [];
-    }
-    if (this.payload.buttons.length >= 2) {
-      throw new Error('A maximum of 2 buttons are allowed.');
-    }
+    return this.edit((payload) => {
+      if (!payload.buttons) {
+        payload.buttons = [];
+      }
+      if (payload.buttons.length >= 2) {
+        throw new Error('A maximum of 2 buttons are allowed.');
+      }
+
+      payload.buttons.push(this.fitButton(label, url));
+    });
+  }
 
-    this.validateButton(label, url);
-    this.payload.buttons.push({ label, url });
-    return this;
+  /**
+   * Checks the whole payload against Discord's rules, see `validateActivity`.
+   * @returns Every problem found, empty if the payload is valid
+   * @example
+   * const issues = new PresenceBuilder().setParty('', 5, 4).validate();
+   */
+  validate(): ActivityIssue[] {
+    return validateActivity(this.payload);
   }
 
   /**
    * Builds and returns the final activity payload. Performs final conflict checks.
-   * @returns The constructed ActivityPayload ready to be sent to Discord
+   * @returns A copy of the constructed ActivityPayload ready to be sent to Discord, later changes to the builder don't affect it
    */
   build(): ActivityPayload {
     if (this.payload.buttons?.length && (this.payload.secrets?.join || this.payload.secrets?.spectate)) {
-      console.warn(
-        '[discord-rpc-new] Warning: You have set both custom Buttons and Join/Spectate Secrets. Discord will prioritize the native Join/Spectate buttons and your custom buttons will likely be hidden.',
+      this.logger.warn(
+        'You have set both custom Buttons and Join/Spectate Secrets. Discord will prioritize the native Join/Spectate buttons and your custom buttons will likely be hidden.',
       );
     }
 
-    return this.payload as ActivityPayload;
+    return deepClone(this.payload);
+  }
+
+  /**
+   * Returns a copy of the payload without running the build checks, used by `JSON.stringify`.
+   * @returns Copy of the activity payload
+   */
+  toJSON(): ActivityPayload {
+    return deepClone(this.payload);
+  }
+
+  /**
+   * Internal helper to apply a change, to a copy of the builder in immutable mode.
+   * @param change Function modifying the payload
+   * @returns The builder holding the change
+   */
+  private edit(change: (payload: Partial<ActivityPayload>) => void): this {
+    const builder = this.options?.immutable ? this.clone() : this;
+    change(builder.payload);
+    return builder;
   }
 
   /**
-   * Internal helper to validate button constraints.
+   * Internal helper to validate button constraints. Labels are truncated in truncate mode, URLs never are.
    * @param label Button label (Max 32 chars)
    * @param url Button URL (Max 512 chars)
+   * @returns The button to add
    * @throws Error if validation fails
    */
-  private validateButton(label: string, url: string) {
-    if (label.length > 32) throw new Error('Button label must be 32 characters or fewer.');
-    if (url.length > 512) throw new Error('Button URL must be 512 characters or fewer.');
+  private fitButton(label: string, url: string): Button {
+    if (codePointLength(url) > 512) throw new Error('Button URL must be 512 characters or fewer.');
+    return { label: this.fitText(label, 32, 'Button label'), url };
+  }
+
+  /**
+   * Internal helper to apply a character limit according to the overflow mode.
+   * @param text Text to check
+   * @param max Maximum number of characters
+   * @param name Name of the field for the error message
+   * @returns The text, shortened in truncate mode
+   * @throws Error if the text exceeds the limit and the builder doesn't truncate
+   */
+  private fitText(text: string, max: number, name: string): string {
+    if (codePointLength(text) <= max) return text;
+    if (this.truncate) return truncateText(text, max, this.ellipsis);
+    throw new Error(`${name} must be ${max} characters or fewer.`);
   }
 }
+
+/**
+ * Renders a template into an activity payload, see `PresenceBuilder.fromTemplate`.
+ * @param template Template to render, see `PresenceTemplate`
+ * @param variables Values for the placeholders, fields using a missing variable are omitted
+ * @param options Builder options, eg. `overflow: 'truncate'` for texts exceeding their limits
+ * @returns The rendered activity payload
+ * @throws Error if a text exceeds its limit and the builder doesn't truncate, or an expression can't be parsed
+ * @example
+ * const activity = renderPresence(
+ *   { details: 'Listening to {title}', state: 'by {artist}', timestamps: { start: 'now', end: '+{duration}s' } },
+ *   { title: 'Song', artist: 'Artist', duration: 215 },
+ * );
+ */
+export const renderPresence = (template: PresenceTemplate, variables?: TemplateVariables, options?: PresenceBuilderOptions): ActivityPayload =>
+  PresenceBuilder.fromTemplate(template, variables, options).build();
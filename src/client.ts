@@ -2,39 +2,172 @@
 import { EventEmitter } from 'node:events';
 // Internal
 import { SocketConnection } from './connection';
-import { generateNonce } from './utils';
+import { createLogger } from './logger';
+import { validateActivity } from './validation';
+import {
+  ActivityValidationError,
+  ConnectionClosedError,
+  InvalidStateError,
+  ProtocolError,
+  RequestCancelledError,
+  RPCError,
+  UnsupportedTransportError,
+  type RequestCancelReason,
+} from './errors';
+import { CoalescingRateLimiter } from './limiter';
+import { toStoredToken } from './tokens';
+import { computeBackoff, deepMerge, generateNonce, isDeepEqual, stableStringify } from './utils';
+import { WebSocketTransport } from './websocket';
 // Types
 import {
+  CloseCodes,
   Command,
+  ConnectionState,
   Event,
   LobbyType,
   OpCode,
+  RPCErrorCode,
+  type ActivityPatch,
   type ActivityPayload,
+  type AuthOptions,
   type AuthenticateResponse,
   type AuthorizeResponse,
+  type ClientEvents,
   type ClientOptions,
+  type CommandFrameEvents,
+  type HeartbeatOptions,
+  type Logger,
+  type ReconnectFailedEvent,
+  type StateChangeEvent,
+  type CommandRequestParams,
+  type CommandResponse,
+  type Lobby,
+  type LoginResponse,
+  type OAuthTokenResponse,
   type ReadyResponse,
+  type ReconnectOptions,
+  type Relationship,
+  type Subscription,
+  type RequestOptions,
+  type Transport,
 } from './types';
 
+/**
+ * Command waiting in the queue for the client to become ready.
+ */
+type QueuedRequest = {
+  cmd: Command;
+  release: () => void;
+  cancel: (reason: RequestCancelReason, cause?: Error) => void;
+};
+
+/**
+ * Subscription tracked by the registry so it can be replayed after reconnecting.
+ */
+type SubscriptionEntry = {
+  event: Event;
+  args: object;
+  refCount: number;
+  state: 'inactive' | 'pending' | 'active';
+  /**
+   * In-flight SUBSCRIBE request, shared by callers subscribing meanwhile
+   */
+  request?: Promise<void>;
+};
+
+/**
+ * States the client may move to from each state.
+ */
+const STATE_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  [ConnectionState.Idle]: [ConnectionState.Connecting, ConnectionState.Destroyed],
+  // Transports which handshake in the connection URL (eg. WebSocket) may receive READY before connect() returns
+  [ConnectionState.Connecting]: [
+    ConnectionState.Handshaking,
+    ConnectionState.Ready,
+    ConnectionState.Reconnecting,
+    ConnectionState.Idle,
+    ConnectionState.Destroyed,
+  ],
+  [ConnectionState.Handshaking]: [ConnectionState.Ready, ConnectionState.Reconnecting, ConnectionState.Idle, ConnectionState.Destroyed],
+  [ConnectionState.Ready]: [ConnectionState.Authenticated, ConnectionState.Reconnecting, ConnectionState.Idle, ConnectionState.Destroyed],
+  [ConnectionState.Authenticated]: [ConnectionState.Reconnecting, ConnectionState.Idle, ConnectionState.Destroyed],
+  [ConnectionState.Reconnecting]: [ConnectionState.Connecting, ConnectionState.Idle, ConnectionState.Destroyed],
+  [ConnectionState.Destroyed]: [],
+};
+
+/**
+ * Close codes after which reconnecting can never succeed.
+ */
+const FATAL_CLOSE_CODES: number[] = [
+  CloseCodes.INVALID_CLIENTID,
+  CloseCodes.INVALID_ORIGIN,
+  CloseCodes.INVALID_VERSION,
+  CloseCodes.INVALID_ENCODING,
+];
+
+/**
+ * Reasons a queued activity update is dropped without rejecting, the last activity is restored after READY anyway.
+ */
+const DROPPABLE_ACTIVITY_REASONS: RequestCancelReason[] = ['expired', 'destroyed', 'disconnected'];
+
+/**
+ * Request awaiting a response from Discord.
+ */
+type PendingRequest = {
+  cmd: Command;
+  resolve: (data: any) => void;
+  reject: (err: Error) => void;
+  cleanup: () => void;
+};
+
+/**
+ * Listener for a client event.
+ */
+export type ClientEventListener<K extends keyof ClientEvents> = (data: ClientEvents[K]) => void;
+
+/**
+ * Typed event methods of the Client, see `ClientEvents` for all events and their payloads.
+ */
+export interface Client {
+  on<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  once<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  off<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  addListener<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  removeListener<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  prependListener<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  prependOnceListener<K extends keyof ClientEvents>(event: K, listener: ClientEventListener<K>): this;
+  emit<K extends keyof ClientEvents>(event: K, data: ClientEvents[K]): boolean;
+}
+
 /**
  * Main RPC Client for managing Discord Rich Presence.
  */
 export class Client extends EventEmitter {
   /**
-   * Underlying Discord IPC connection
+   * Underlying transport to Discord, the IPC connection by default
    */
-  private connection = new SocketConnection();
+  private connection: Transport;
 
   /**
-   * Indicates if the client is ready (handshake complete)
+   * Current lifecycle state
    */
-  private isReady = false;
+  private currentState = ConnectionState.Idle;
 
   /**
    * The client ID of the Discord application
    */
   private clientId?: string;
 
+  /**
+   * The client secret passed to login, used to refresh tokens
+   */
+  private clientSecret?: string;
+
+  /**
+   * Re-authentication with the stored token started by the last READY
+   */
+  private authRestore?: Promise<AuthenticateResponse | undefined>;
+
   /**
    * Timer for heartbeat pings to keep the connection alive
    */
@@ -50,15 +183,142 @@ export class Client extends EventEmitter {
    */
   private lastActivity?: ActivityPayload;
 
+  /**
+   * Last activity sent on this connection and its SET_ACTIVITY response, in flight or settled, used to skip redundant updates
+   */
+  private sentActivity?: { activity: ActivityPayload | null; response: Promise<ActivityPayload | null> };
+
+  /**
+   * Requests awaiting a response from Discord, keyed by nonce
+   */
+  private pendingRequests = new Map<string, PendingRequest>();
+
+  /**
+   * Reason sent by Discord with the last CLOSE frame, cleared on READY
+   */
+  private closeError?: ConnectionClosedError;
+
+  /**
+   * Default timeout for command responses in milliseconds
+   */
+  private requestTimeout: number;
+
+  /**
+   * Reconnection policy, false when reconnecting is disabled
+   */
+  private reconnectPolicy: Required<ReconnectOptions> | false;
+
+  /**
+   * Number of reconnection attempts since the last READY
+   */
+  private reconnectAttempts = 0;
+
+  /**
+   * Logger dropping messages below the configured level and redacting secrets
+   */
+  private logger: Logger;
+
+  /**
+   * Whether activities are validated before they are sent
+   */
+  private strict: boolean;
+
+  /**
+   * Heartbeat settings, false when the heartbeat is disabled
+   */
+  private heartbeatPolicy: Required<HeartbeatOptions> | false;
+
+  /**
+   * Send times of PINGs still waiting for a PONG, keyed by nonce
+   */
+  private pendingPings = new Map<string, number>();
+
+  /**
+   * Number of heartbeats in a row which found the previous PING unanswered
+   */
+  private missedHeartbeats = 0;
+
+  /**
+   * Round trip time of the last answered PING
+   */
+  private lastLatency?: number;
+
+  /**
+   * Rate limiter coalescing SET_ACTIVITY updates, undefined when rate limiting is disabled
+   */
+  private activityLimiter?: CoalescingRateLimiter<ActivityPayload | null, ActivityPayload | null>;
+
+  /**
+   * Commands issued before READY, in the order they were issued
+   */
+  private queue: QueuedRequest[] = [];
+
+  /**
+   * Limits of the command queue
+   */
+  private queueOptions: { maxSize: number; expiry: number };
+
+  /**
+   * Activity update queued before READY, shared by every caller since only the latest activity is applied
+   */
+  private queuedActivity?: Promise<ActivityPayload | null>;
+
+  /**
+   * Token persistence settings, undefined when re-authentication is disabled
+   */
+  private auth?: AuthOptions;
+
+  /**
+   * Base URL of the Discord API used for OAuth2 token requests
+   */
+  private apiBaseUrl: string;
+
+  /**
+   * Active subscriptions keyed by event and serialized arguments
+   */
+  private subscriptionRegistry = new Map<string, SubscriptionEntry>();
+
   /**
    * Initializes a new RPC Client instance.
+   * @throws UnsupportedTransportError if the WebSocket transport is chosen and no implementation is available
    */
   constructor(options?: ClientOptions) {
     super();
 
-    // Set custom path list if provided
-    if (options?.pathList) {
-      this.connection.setPathList(options.pathList);
+    this.logger = createLogger(options?.logger, options?.logLevel);
+    this.requestTimeout = options?.requestTimeout ?? 10_000;
+    this.strict = options?.strict ?? false;
+    this.reconnectPolicy =
+      options?.reconnect === false
+        ? false
+        : {
+            initialDelay: 1_000,
+            multiplier: 2,
+            jitter: 0.1,
+            maxDelay: 60_000,
+            maxAttempts: Infinity,
+            ...options?.reconnect,
+          };
+
+    this.heartbeatPolicy = options?.heartbeat === false ? false : { interval: 30_000, maxMissed: 3, ...options?.heartbeat };
+    this.queueOptions = { maxSize: 100, expiry: 30_000, ...options?.queue };
+    this.auth = options?.auth;
+    this.apiBaseUrl = (options?.apiBaseUrl ?? 'https://discord.com/api').replace(/\/+$/, '');
+
+    if (options?.activityRateLimit !== false) {
+      this.activityLimiter = new CoalescingRateLimiter(
+        { limit: 5, interval: 20_000, ...options?.activityRateLimit },
+        (activity) => this.sendActivity(activity),
+      );
+    }
+
+    if (typeof options?.transport === 'object') {
+      this.connection = options.transport;
+    } else if (options?.transport === 'websocket') {
+      this.connection = new WebSocketTransport({ WebSocket: options?.WebSocket });
+    } else {
+      // Custom paths apply to this client only
+      this.connection = new SocketConnection({ pathList: options?.pathList });
     }
 
     // Centralized data handler
@@ -66,21 +326,89 @@ export class Client extends EventEmitter {
       this.handleIncoming(op, data);
     });
 
+    this.connection.onProtocolError?.((error) => {
+      this.handleProtocolError(error);
+    });
+
     this.connection.onClose(() => {
-      if (this.isReady) {
-        this.isReady = false;
-        this.emit('disconnected');
-        this.attemptReconnect();
+      // Responses can't arrive on a closed socket
+      this.rejectPendingRequests(
+        'disconnected',
+        this.closeError ?? new ConnectionClosedError(CloseCodes.CLOSE_ABNORMAL, 'Connection to Discord was lost.'),
+      );
+
+      this.stopHeartbeat();
+
+      // Discord drops the activity and subscriptions along with the connection
+      this.sentActivity = undefined;
+      for (const entry of this.subscriptionRegistry.values()) {
+        if (entry.state === 'active') entry.state = 'inactive';
       }
+
+      // Nothing to recover when destroyed or already given up
+      if (this.state === ConnectionState.Destroyed || this.state === ConnectionState.Idle) return;
+
+      if (this.isConnected && !this.closeError) {
+        // A CLOSE frame already emitted 'disconnected' with its reason
+        this.emit('disconnected', undefined);
+      }
+      this.attemptReconnect(this.closeError);
     });
   }
 
+  /**
+   * Subscriptions currently registered, replayed automatically after each READY.
+   * @returns Snapshot of the registered subscriptions
+   */
+  public get subscriptions(): Subscription[] {
+    return [...this.subscriptionRegistry.values()].map(({ event, args, refCount, state }) => ({
+      event,
+      args,
+      refCount,
+      active: state === 'active',
+    }));
+  }
+
+  /**
+   * Round trip time in milliseconds of the last PING answered by Discord, undefined before the first PONG.
+   * @returns The latency in milliseconds
+   */
+  public get latency(): number | undefined {
+    return this.lastLatency;
+  }
+
+  /**
+   * Current lifecycle state of the client.
+   * @returns The connection state
+   */
+  public get state(): ConnectionState {
+    return this.currentState;
+  }
+
   /**
    * Indicates whether the client is currently connected and ready to send/receive commands.
    * @returns boolean indicating connection status
    */
   public get isConnected() {
-    return this.isReady;
+    return this.state === ConnectionState.Ready || this.state === ConnectionState.Authenticated;
+  }
+
+  /**
+   * Moves to another lifecycle state and emits 'stateChange'.
+   * @param to State to move to
+   * @throws InvalidStateError if the transition isn't allowed from the current state
+   */
+  private setState(to: ConnectionState) {
+    const from = this.currentState;
+    if (from === to) return;
+
+    if (!STATE_TRANSITIONS[from].includes(to)) {
+      throw new InvalidStateError(`move to ${to}`, from);
+    }
+
+    this.currentState = to;
+    this.logger.debug(`State changed from ${from} to ${to}.`);
+    this.emit('stateChange', { from, to });
   }
 
   /**
@@ -90,92 +418,291 @@ export class Client extends EventEmitter {
    * @returns void
    */
   private handleIncoming(op: OpCode, data: any) {
+    this.logger.debug('Received frame', { op: OpCode[op], cmd: data?.cmd, evt: data?.evt, nonce: data?.nonce, payload: data });
+
     // 1. Handle Protocol-level events
     if (op === OpCode.CLOSE) {
+      this.closeError = new ConnectionClosedError(data?.code ?? CloseCodes.CLOSE_NORMAL, data?.message ?? 'Connection closed by Discord.', data);
       this.emit('disconnected', data);
       return;
     }
 
     if (op === OpCode.PING) {
+      // Discord expects its PINGs to be echoed back
+      this.sendFrame(OpCode.PONG, data ?? {}).catch(() => {});
       this.emit('ping', data);
       return;
     }
 
+    if (op === OpCode.PONG) {
+      this.handlePong(data);
+      return;
+    }
+
     // 2. Handle Frame-level events
     if (op === OpCode.FRAME) {
+      // Custom transports may pass any decoded value, while the code below reads fields of an object
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        this.handleProtocolError(new ProtocolError('invalid_payload', 'Received a frame whose body is not a JSON object.', op));
+        return;
+      }
+
       // Emit the specific command/event type
-      if (data.evt === Event.READY) {
-        this.isReady = true;
-        this.emit(Event.READY, data.data);
+      if (data.evt === Event.READY && (this.state === ConnectionState.Handshaking || this.state === ConnectionState.Connecting)) {
+        void this.handleReady(data.data);
+      }
+
+      const error =
+        data.evt === Event.ERROR
+          ? new RPCError(data.data?.code ?? RPCErrorCode.UNKNOWN_ERROR, data.data?.message ?? 'Unknown error', {
+              cmd: data.cmd,
+              nonce: data.nonce,
+              payload: data,
+            })
+          : undefined;
 
-        if (this.lastActivity) {
-          this.setActivity(this.lastActivity);
+      if (error) {
+        this.emit(Event.ERROR, error);
+      }
+
+      // Emit the raw frame by command name, eg. 'DISPATCH' or 'SET_ACTIVITY', like earlier versions did
+      if (data.cmd in Command && data.cmd !== Command.OVERLAY) {
+        this.emit(data.cmd as keyof CommandFrameEvents, data);
+      }
+
+      // Settle the request waiting for this nonce
+      const pending = data.nonce ? this.pendingRequests.get(data.nonce) : undefined;
+      if (pending) {
+        this.pendingRequests.delete(data.nonce);
+        pending.cleanup();
+
+        if (error) {
+          pending.reject(error);
+        } else {
+          pending.resolve(data.data);
         }
+        return;
       }
 
-      if (data.evt === Event.ERROR) {
-        this.emit(Event.ERROR, new Error(data.data.message));
+      // Emit subscribed events by their event name
+      if (data.cmd === Command.DISPATCH && data.evt && data.evt !== Event.READY && data.evt !== Event.ERROR) {
+        this.emit(data.evt as keyof ClientEvents, data.data);
       }
+    }
+  }
 
-      // Emit everything else as general 'message' or by command name
-      this.emit(data.cmd, data);
+  /**
+   * Restores the session after READY: re-authenticates, then sends queued commands and the last activity.
+   * @param data Payload of the READY event
+   */
+  private async handleReady(data: ReadyResponse) {
+    this.setState(ConnectionState.Ready);
+    this.closeError = undefined;
+    this.reconnectAttempts = 0;
+    this.sentActivity = undefined;
+    this.startHeartbeat();
+    this.authRestore = this.auth ? this.restoreAuthentication() : undefined;
+    this.emit(Event.READY, data);
+
+    // Queued commands may need the scopes granted by the token
+    if (this.authRestore) {
+      await this.authRestore;
+      // The connection was lost meanwhile, the next READY takes over
+      if (!this.isConnected) return;
+    }
+
+    // A queued activity update applies the last activity itself
+    const shouldRestore = this.lastActivity && !this.queuedActivity;
+    this.flushQueue();
+    this.replaySubscriptions();
+
+    if (shouldRestore) {
+      // Restoring is best effort, Discord errors still surface through Event.ERROR
+      this.setActivity(this.lastActivity!).catch((error) => this.logger.warn('Could not restore the activity after READY.', { error }));
     }
   }
 
   /**
-   * Logs in to Discord and establishes the IPC connection.
-   * @returns Promise that resolves when login is successful
+   * Authenticates with the stored token, refreshing it first if it expired or was rejected.
+   * Failures are emitted as 'error' if anyone listens, since nobody awaits this.
+   * @returns Promise that resolves with the authentication, or undefined if no token was stored or it failed
+   */
+  private async restoreAuthentication(): Promise<AuthenticateResponse | undefined> {
+    try {
+      let token = await this.auth!.tokenStore.get();
+      if (!token) return;
+
+      const refreshMargin = this.auth!.refreshMargin ?? 60_000;
+      const canRefresh = !!(token.refresh_token && (this.auth!.clientSecret ?? this.clientSecret));
+
+      if (canRefresh && token.expires_at !== undefined && token.expires_at - refreshMargin <= Date.now()) {
+        token = toStoredToken(await this.refreshToken());
+      }
+
+      let response: AuthenticateResponse;
+      try {
+        response = await this.authenticate(token.access_token);
+      } catch (err) {
+        if (!(canRefresh && err instanceof RPCError && err.code === RPCErrorCode.INVALID_TOKEN)) throw err;
+        response = await this.authenticate((await this.refreshToken()).access_token);
+      }
+
+      this.emit('authenticated', response);
+      return response;
+    } catch (err) {
+      this.logger.warn('Could not re-authenticate with the stored token.', { error: err });
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', err as Error);
+      }
+    }
+  }
+
+  /**
+   * Logs in to Discord and establishes the connection.
+   * With an `accessToken`, the session is authenticated with it. With `scopes` and a `clientSecret`,
+   * the full OAuth2 flow runs: AUTHORIZE, code exchange, then AUTHENTICATE.
+   * A token restored from `ClientOptions.auth.tokenStore` takes precedence over both.
+   * @param param0 Object containing clientId and optional clientSecret, scopes, accessToken and redirectUri
+   * @returns Promise that resolves with the READY payload and, if authenticated, the authentication response
+   * @throws ConnectionClosedError if Discord closes the connection during the handshake (eg. invalid client ID)
+   * @throws InvalidStateError if the client is already logged in or was destroyed
+   * @example
+   * const { user, auth } = await client.login({ clientId, clientSecret, scopes: [Scope.RPC, Scope.Identify] });
    */
   async login({
     clientId,
     clientSecret,
     scopes,
     accessToken,
+    redirectUri = 'http://localhost',
   }: {
     clientId: string;
     clientSecret?: string;
     scopes?: string[];
     accessToken?: string;
-  }): Promise<ReadyResponse> {
+    redirectUri?: string;
+  }): Promise<LoginResponse> {
+    if (this.state !== ConnectionState.Idle) {
+      throw new InvalidStateError('log in', this.state);
+    }
+    if (scopes && !accessToken && !clientSecret) {
+      throw new Error('A clientSecret is required to exchange the authorization code for the given scopes.');
+    }
+
     this.clientId = clientId;
-    await this.connectWithRetry();
+    this.clientSecret = clientSecret;
 
-    return new Promise((resolve) => {
-      this.once(Event.READY, (data) => {
-        // Clear any previous heartbeat and start a new one
-        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
-        this.heartbeatTimer = setInterval(() => this.ping(), 30_000);
+    const ready = new Promise<ReadyResponse>((resolve, reject) => {
+      const cleanup = () => {
+        this.removeListener(Event.READY, onReady);
+        this.removeListener('reconnectFailed', onFailed);
+        this.removeListener('stateChange', onDestroy);
+      };
+      const onReady = (data: ReadyResponse) => {
+        cleanup();
         resolve(data);
-      });
+      };
+      // Fatal close codes (eg. invalid client ID) end the retries with a ConnectionClosedError
+      const onFailed = ({ error }: ReconnectFailedEvent) => {
+        cleanup();
+        reject(error ?? new Error('Could not connect to Discord.'));
+      };
+      const onDestroy = ({ to }: StateChangeEvent) => {
+        if (to !== ConnectionState.Destroyed) return;
+        cleanup();
+        reject(new InvalidStateError('log in', to, 'The client was destroyed while logging in.'));
+      };
+
+      this.once(Event.READY, onReady);
+      this.on('reconnectFailed', onFailed);
+      this.on('stateChange', onDestroy);
     });
+
+    await this.connectWithRetry();
+    const data = await ready;
+
+    const restored = await this.authRestore;
+    if (restored) {
+      return { ...data, auth: restored };
+    }
+
+    if (accessToken) {
+      return { ...data, auth: await this.authenticate(accessToken) };
+    }
+
+    if (scopes && clientSecret) {
+      const { code } = await this.authorize({ clientId, scopes });
+      const token = await this.exchangeCode({ clientId, clientSecret, code, redirectUri });
+      return { ...data, auth: await this.authenticate(token.access_token) };
+    }
+
+    return data;
   }
 
   /**
-   * Attempts to reconnect to Discord with exponential backoff.
+   * Connects to Discord and sends the handshake, scheduling a reconnection attempt on failure.
    */
   private async connectWithRetry() {
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.setState(ConnectionState.Connecting);
 
     try {
-      await this.connection.connect();
-      // If we get here, we connected! Send Handshake immediately.
-      this.connection.send(OpCode.HANDSHAKE, { v: 1, client_id: this.clientId });
+      await this.connection.connect(this.clientId!);
     } catch (err) {
-      console.log('Failed to connect to Discord. Retrying in 5s...');
-      this.attemptReconnect();
+      this.attemptReconnect(err as Error);
+      return;
+    }
+
+    // destroy() was called while connecting
+    if (this.state === ConnectionState.Destroyed) {
+      this.connection.destroy();
+      return;
     }
+    // READY already arrived, the transport handshakes in its connection URL
+    if (this.state !== ConnectionState.Connecting) return;
+
+    // If we get here, we connected! Send Handshake immediately.
+    this.setState(ConnectionState.Handshaking);
+    this.sendFrame(OpCode.HANDSHAKE, { v: 1, client_id: this.clientId }).catch(() => {
+      // The socket closed meanwhile, its close handler takes care of reconnecting
+    });
   }
 
   /**
-   * Sets a timer to attempt reconnection after a delay if the connection is lost.
+   * Sets a timer to attempt reconnection with exponential backoff, or gives up
+   * when the policy is exhausted, Discord closed the connection with a fatal code or the transport is unsupported.
+   * @param error Error which caused the reconnection, if any
    */
-  private attemptReconnect() {
+  private attemptReconnect(error?: Error) {
+    // Nothing to reconnect once destroyed
+    if (this.state === ConnectionState.Destroyed) return;
     // Prevent multiple timers
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
 
+    const policy = this.reconnectPolicy;
+    const isFatal =
+      (error instanceof ConnectionClosedError && FATAL_CLOSE_CODES.includes(error.code)) || error instanceof UnsupportedTransportError;
+
+    if (!policy || isFatal || this.reconnectAttempts >= policy.maxAttempts) {
+      this.setState(ConnectionState.Idle);
+      // No READY will follow, so queued commands can never be sent
+      this.rejectQueue('disconnected', error);
+      this.logger.error(`Could not connect to Discord, giving up after ${this.reconnectAttempts} attempts.`, { error });
+      this.emit('reconnectFailed', { attempts: this.reconnectAttempts, error });
+      this.reconnectAttempts = 0;
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = computeBackoff(this.reconnectAttempts, policy);
+    this.setState(ConnectionState.Reconnecting);
+    this.logger.info(`Failed to connect to Discord. Retrying in ${delay}ms...`, { attempt: this.reconnectAttempts, error });
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delay, error });
+
     this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
       this.connectWithRetry();
-    }, 5_000);
+    }, delay);
   }
 
   /**
@@ -183,76 +710,309 @@ export class Client extends EventEmitter {
    * @returns Promise that resolves when the client is destroyed
    */
   async destroy() {
+    if (this.state === ConnectionState.Destroyed) return;
+
     // Clear timers
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = undefined;
-    }
+    this.stopHeartbeat();
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = undefined;
     }
 
-    // Clear activity before destroying
-    await this.clearActivity();
+    // Drop coalesced updates and clear activity right away instead of waiting for the rate limit.
+    // Their callers resolve with the cleared activity, so fire-and-forget updates don't reject at shutdown.
+    this.activityLimiter?.cancel(null);
+    this.lastActivity = undefined;
+    if (this.isConnected) {
+      await this.sendActivity(null).catch(() => {});
+    }
+    // The connection may have closed meanwhile and scheduled a reconnection
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
     // Prevent auto-reconnect logic from firing
-    this.isReady = false;
+    this.setState(ConnectionState.Destroyed);
+    // Nothing will answer in-flight or queued requests anymore
+    this.rejectPendingRequests('destroyed');
+    this.rejectQueue('destroyed');
     // Destroy the underlying connection
     this.connection.destroy();
   }
 
   /**
    * Sends a ping to Discord to keep the connection alive.
+   * The matching PONG updates `latency` and emits 'pong'.
+   * @returns Nonce of the sent PING
    */
   ping() {
-    this.connection.send(OpCode.PING, { nonce: generateNonce() });
+    const nonce = generateNonce();
+    this.pendingPings.set(nonce, Date.now());
+    // An unsent PING stays unanswered and counts as missed
+    this.sendFrame(OpCode.PING, { nonce }).catch(() => {});
+    return nonce;
+  }
+
+  /**
+   * Sends a frame through the transport, tracing it in debug mode.
+   * @param op OpCode of the frame
+   * @param payload Payload object to send
+   * @returns Promise that settles once the transport wrote the frame
+   */
+  private sendFrame(op: OpCode, payload: any) {
+    this.logger.debug('Sending frame', { op: OpCode[op], cmd: payload.cmd, evt: payload.evt, nonce: payload.nonce, payload });
+    return this.connection.send(op, payload);
+  }
+
+  /**
+   * Logs an invalid frame and forwards it as a 'protocolError' event.
+   * @param error Error describing the skipped frame
+   */
+  private handleProtocolError(error: ProtocolError) {
+    this.logger.warn('Received an invalid frame from Discord.', { reason: error.reason, op: error.op, error });
+    this.emit('protocolError', error);
+  }
+
+  /**
+   * Matches a PONG to its PING and records the latency.
+   * @param data Payload of the PONG frame
+   */
+  private handlePong(data: any) {
+    const sentAt = this.pendingPings.get(data?.nonce);
+    if (sentAt === undefined) return;
+
+    // Any answer proves the connection alive, older unanswered PINGs included
+    this.pendingPings.clear();
+    this.missedHeartbeats = 0;
+    this.lastLatency = Date.now() - sentAt;
+    this.emit('pong', { nonce: data.nonce, latency: this.lastLatency });
+  }
+
+  /**
+   * Starts sending PINGs at the configured interval, unless disabled or the transport keeps itself alive.
+   */
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    if (!this.heartbeatPolicy || this.connection.keepsAlive) return;
+
+    const { interval, maxMissed } = this.heartbeatPolicy;
+    this.heartbeatTimer = setInterval(() => {
+      if (this.pendingPings.size > 0 && ++this.missedHeartbeats >= maxMissed) {
+        this.handleDeadConnection(maxMissed);
+        return;
+      }
+      this.ping();
+    }, interval);
+  }
+
+  /**
+   * Stops the heartbeat and forgets unanswered PINGs.
+   */
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    this.pendingPings.clear();
+    this.missedHeartbeats = 0;
+  }
+
+  /**
+   * Closes a connection which stopped answering PINGs, which triggers the reconnect path.
+   * @param missed Number of heartbeats without a PONG
+   */
+  private handleDeadConnection(missed: number) {
+    this.stopHeartbeat();
+    this.closeError = new ConnectionClosedError(CloseCodes.CLOSE_ABNORMAL, `Discord did not answer ${missed} heartbeats in a row.`);
+    this.logger.warn(this.closeError.message);
+    this.emit('disconnected', { code: this.closeError.code, message: this.closeError.message });
+    this.connection.destroy();
   }
 
   /**
    * Sends a command request to Discord and waits for the response.
    * @param cmd Command to send
-   * @param args Arguments for the command
+   * @param args Arguments for the command, typed by `CommandMap`
    * @param evt Optional event name to listen for
+   * @param options Optional timeout and abort signal for this request
+   * Commands issued before the client is ready are queued and sent after READY.
    * @returns Promise that resolves with the command response
+   * @throws RequestCancelledError if the request times out, expires in the queue, is aborted or the connection closes first
+   * @throws NotConnectedError if the frame couldn't be written because the connection just closed
+   * @throws InvalidStateError if the client was destroyed
+   * @example
+   * const guild = await client.request(Command.GET_GUILD, { guild_id: '1234' });
    */
-  async request(cmd: Command, args?: object, evt?: Event): Promise<any> {
+  async request<C extends Command>(cmd: C, ...[args, evt, options]: CommandRequestParams<C>): Promise<CommandResponse<C>> {
     const nonce = generateNonce();
+    const { timeout = this.requestTimeout, signal } = options ?? {};
+
+    if (signal?.aborted) {
+      throw new RequestCancelledError('aborted', cmd, nonce);
+    }
+
+    if (!this.isConnected) {
+      await this.enqueue(cmd, nonce, signal);
+    }
 
     return new Promise((resolve, reject) => {
-      // Create a specific handler for this command + nonce
-      const handler = (data: any) => {
-        if (data.nonce === nonce) {
-          // Clean up: stop listening for this command once we find our nonce
-          this.removeListener(cmd, handler);
-
-          if (data.evt === 'ERROR') {
-            reject(new Error(data.data.message));
-          } else {
-            resolve(data.data);
-          }
-        }
-      };
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => this.cancelRequest(nonce, 'aborted');
+
+      // Wait for handleIncoming to settle the response carrying our nonce
+      this.pendingRequests.set(nonce, {
+        cmd,
+        resolve,
+        reject,
+        cleanup: () => {
+          if (timer) clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      });
+
+      if (timeout > 0) {
+        timer = setTimeout(() => this.cancelRequest(nonce, 'timeout', `${cmd} request timed out after ${timeout}ms.`), timeout);
+      }
+      signal?.addEventListener('abort', onAbort);
 
-      // Listen for the command event emitted by handleIncoming
-      this.on(cmd, handler);
+      // Send the frame to Discord, a failed write will never be answered
+      this.sendFrame(OpCode.FRAME, { cmd, args, evt, nonce }).catch((err) => this.failRequest(nonce, err));
+    });
+  }
 
-      // Send the frame to Discord
-      this.connection.send(OpCode.FRAME, { cmd, args, evt, nonce });
+  /**
+   * Holds a command until the client is ready.
+   * @param cmd Command being queued
+   * @param nonce Nonce of the request
+   * @param signal Optional signal to cancel the request while queued
+   * @returns Promise that resolves once the command may be sent
+   */
+  private enqueue(cmd: Command, nonce?: string, signal?: AbortSignal): Promise<void> {
+    const { maxSize, expiry } = this.queueOptions;
+
+    if (this.state === ConnectionState.Destroyed) {
+      return Promise.reject(new InvalidStateError(`send ${cmd}`, this.state));
+    }
+    if (this.queue.length >= maxSize) {
+      return Promise.reject(new RequestCancelledError('overflow', cmd, nonce, `${cmd} request was rejected, the queue is full (${maxSize}).`));
+    }
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const remove = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) this.queue.splice(index, 1);
+      };
+      const entry: QueuedRequest = {
+        cmd,
+        release: () => {
+          remove();
+          resolve();
+        },
+        cancel: (reason, cause) => {
+          remove();
+          reject(new RequestCancelledError(reason, cmd, nonce, undefined, cause));
+        },
+      };
+      const onAbort = () => entry.cancel('aborted');
+
+      if (expiry > 0) {
+        timer = setTimeout(() => entry.cancel('expired'), expiry);
+      }
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(entry);
     });
   }
 
+  /**
+   * Releases every queued command in the order it was issued.
+   */
+  private flushQueue() {
+    for (const entry of [...this.queue]) {
+      entry.release();
+    }
+  }
+
+  /**
+   * Rejects every queued command, used when the client will not become ready anymore.
+   * @param reason Why the commands are cancelled
+   * @param cause Optional underlying error
+   */
+  private rejectQueue(reason: RequestCancelReason, cause?: Error) {
+    for (const entry of [...this.queue]) {
+      entry.cancel(reason, cause);
+    }
+  }
+
+  /**
+   * Rejects a pending request without waiting for its response.
+   * @param nonce Nonce of the request
+   * @param reason Why the request is cancelled
+   * @param message Optional error message
+   * @param cause Optional underlying error
+   */
+  private cancelRequest(nonce: string, reason: RequestCancelReason, message?: string, cause?: Error) {
+    const pending = this.pendingRequests.get(nonce);
+    if (!pending) return;
+
+    this.failRequest(nonce, new RequestCancelledError(reason, pending.cmd, nonce, message, cause));
+  }
+
+  /**
+   * Rejects a pending request with the given error.
+   * @param nonce Nonce of the request
+   * @param error Error to reject the request with
+   */
+  private failRequest(nonce: string, error: Error) {
+    const pending = this.pendingRequests.get(nonce);
+    if (!pending) return;
+
+    this.pendingRequests.delete(nonce);
+    pending.cleanup();
+    pending.reject(error);
+  }
+
+  /**
+   * Rejects every pending request, used when no response can arrive anymore.
+   * @param reason Why the requests are cancelled
+   * @param cause Optional underlying error, eg. the ConnectionClosedError
+   */
+  private rejectPendingRequests(reason: RequestCancelReason, cause?: Error) {
+    for (const nonce of [...this.pendingRequests.keys()]) {
+      this.cancelRequest(nonce, reason, undefined, cause);
+    }
+  }
+
   /**
    * Authorizes the application and retrieves an authorization code.
-   * @param param0 Object containing clientId and scopes
+   * Waits for the user without a timeout unless one is given, since Discord shows an approval prompt.
+   * @param param0 Object containing clientId, scopes and optional request options
    * @returns Promise that resolves with the authorization code
    */
-  async authorize({ clientId, scopes, args }: { clientId: string; scopes: string[]; args?: object }): Promise<AuthorizeResponse> {
-    const data = await this.request(Command.AUTHORIZE, {
-      client_id: clientId,
-      scopes,
-      ...args,
-    });
-    return data;
+  async authorize({
+    clientId,
+    scopes,
+    args,
+    timeout = 0,
+    signal,
+  }: {
+    clientId: string;
+    scopes: string[];
+    args?: object;
+  } & RequestOptions): Promise<AuthorizeResponse> {
+    return this.request(
+      Command.AUTHORIZE,
+      {
+        client_id: clientId,
+        scopes,
+        ...args,
+      },
+      undefined,
+      { timeout, signal },
+    );
   }
 
   /**
@@ -261,13 +1021,21 @@ export class Client extends EventEmitter {
    * @returns Promise that resolves with the authentication response
    */
   async authenticate(accessToken: string): Promise<AuthenticateResponse> {
-    return this.request(Command.AUTHENTICATE, {
+    const response = await this.request(Command.AUTHENTICATE, {
       access_token: accessToken,
     });
+
+    if (this.state === ConnectionState.Ready) {
+      this.setState(ConnectionState.Authenticated);
+    }
+    // Subscriptions which failed for lack of scopes may succeed now
+    this.replaySubscriptions();
+    return response;
   }
 
   /**
    * Exchanges an authorization code for an access token.
+   * The token is saved to `ClientOptions.auth.tokenStore` if one is configured.
    * @param param0 Object containing clientId, clientSecret, code, and redirectUri
    * @returns Promise that resolves with the access token response
    */
@@ -281,74 +1049,274 @@ export class Client extends EventEmitter {
     clientSecret: string;
     code: string;
     redirectUri: string;
-  }): Promise<{ access_token: string; scope: string; token_type: string }> {
-    const response = await fetch('https://discord.com/api/oauth2/token', {
+  }): Promise<OAuthTokenResponse> {
+    return this.requestToken('exchange code', {
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'authorization_code',
+      redirect_uri: redirectUri,
+      code: code,
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token.
+   * The token is saved to `ClientOptions.auth.tokenStore` if one is configured.
+   * @param param0 Object containing clientId, clientSecret and refreshToken, defaulting to the login client ID,
+   * `ClientOptions.auth.clientSecret` (or the login client secret) and the stored refresh token
+   * @returns Promise that resolves with the access token response
+   */
+  async refreshToken({
+    clientId = this.clientId,
+    clientSecret = this.auth?.clientSecret ?? this.clientSecret,
+    refreshToken,
+  }: {
+    clientId?: string;
+    clientSecret?: string;
+    refreshToken?: string;
+  } = {}): Promise<OAuthTokenResponse> {
+    refreshToken ??= (await this.auth?.tokenStore.get())?.refresh_token;
+
+    if (!clientId || !clientSecret || !refreshToken) {
+      throw new Error('Refreshing a token requires a client ID, a client secret and a refresh token.');
+    }
+
+    return this.requestToken('refresh token', {
+      client_id: clientId,
+      client_secret: clientSecret,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  /**
+   * Requests a token from the OAuth2 token endpoint and saves it to the token store.
+   * @param action Description of the request for error messages
+   * @param params Form parameters of the request
+   * @returns Promise that resolves with the access token response
+   */
+  private async requestToken(action: string, params: Record<string, string>): Promise<OAuthTokenResponse> {
+    const response = await fetch(`${this.apiBaseUrl}/oauth2/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
-      body: new URLSearchParams({
-        client_id: clientId,
-        client_secret: clientSecret,
-        grant_type: 'authorization_code',
-        redirect_uri: redirectUri,
-        code: code,
-      }),
+      body: new URLSearchParams(params),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(`Failed to exchange code: ${JSON.stringify(error)}`);
+      throw new Error(`Failed to ${action}: ${JSON.stringify(error)}`);
     }
 
-    return (await response.json()) as { access_token: string; scope: string; token_type: string };
+    const token = (await response.json()) as OAuthTokenResponse;
+    await this.auth?.tokenStore.set(toStoredToken(token));
+    return token;
   }
 
   /**
    * Subscribes to a specific event from Discord.
+   * Identical subscriptions share a single SUBSCRIBE and are reference counted, and every
+   * subscription is replayed after reconnecting.
    * @param event Event name to subscribe to
    * @param args Optional arguments for the subscription
    * @returns Promise that resolves with an unsubscribe function
    */
   async subscribe(event: Event, args: object = {}): Promise<{ unsubscribe: () => Promise<void> }> {
-    await this.request(Command.SUBSCRIBE, args, event);
+    const key = `${event}:${stableStringify(args)}`;
+    let entry = this.subscriptionRegistry.get(key);
 
+    if (entry) {
+      entry.refCount++;
+    } else {
+      entry = { event, args, refCount: 1, state: 'inactive' };
+      this.subscriptionRegistry.set(key, entry);
+    }
+
+    try {
+      await (entry.state === 'inactive' ? this.sendSubscription(entry) : entry.request);
+    } catch (err) {
+      this.releaseSubscription(key, entry);
+      throw err;
+    }
+
+    let isReleased = false;
     return {
       unsubscribe: async () => {
-        await this.request(Command.UNSUBSCRIBE, args, event);
+        if (isReleased) return;
+        isReleased = true;
+
+        if (!this.releaseSubscription(key, entry)) return;
+
+        // Discord has the subscription once a replayed SUBSCRIBE still in flight succeeds
+        if (entry.state === 'pending') {
+          await entry.request!.catch(() => {});
+        }
+
+        if (entry.state === 'active') {
+          await this.request(Command.UNSUBSCRIBE, args, event);
+        }
       },
     };
   }
 
+  /**
+   * Sends the SUBSCRIBE command for a registered subscription.
+   * @param entry Subscription to send
+   * @returns Promise that resolves once Discord confirmed the subscription
+   */
+  private sendSubscription(entry: SubscriptionEntry): Promise<void> {
+    entry.state = 'pending';
+    entry.request = this.request(Command.SUBSCRIBE, entry.args, entry.event).then(
+      () => {
+        entry.state = 'active';
+        entry.request = undefined;
+      },
+      (err) => {
+        entry.state = 'inactive';
+        entry.request = undefined;
+        throw err;
+      },
+    );
+
+    return entry.request;
+  }
+
+  /**
+   * Drops one reference to a subscription, removing it from the registry once unused.
+   * @param key Registry key of the subscription
+   * @param entry Subscription to release
+   * @returns boolean indicating whether the subscription was removed
+   */
+  private releaseSubscription(key: string, entry: SubscriptionEntry): boolean {
+    entry.refCount--;
+    if (entry.refCount > 0) return false;
+
+    this.subscriptionRegistry.delete(key);
+    return true;
+  }
+
+  /**
+   * Re-sends every registered subscription Discord doesn't currently have.
+   * Failures are emitted as 'error' if anyone listens and retried after the next READY or authentication.
+   */
+  private replaySubscriptions() {
+    if (!this.isConnected) return;
+
+    for (const entry of this.subscriptionRegistry.values()) {
+      if (entry.state !== 'inactive') continue;
+
+      this.sendSubscription(entry).catch((err) => {
+        this.logger.warn(`Could not restore the ${entry.event} subscription.`, { args: entry.args, error: err });
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', err);
+        }
+      });
+    }
+  }
+
   /**
    * Sets the Rich Presence activity for the user.
+   * Rapid updates are coalesced to respect Discord's rate limit, see `ClientOptions.activityRateLimit`.
+   * Updates issued before the client is ready are queued and applied after READY.
    * @param activity Activity payload to set
-   * @returns void
+   * @returns Promise that resolves once this activity or a newer one has been applied,
+   * or with null if a queued update expired or the client was destroyed or gave up reconnecting
+   * @throws ActivityValidationError in strict mode if the activity breaks Discord's rules
    */
-  setActivity(activity: ActivityPayload) {
+  setActivity(activity: ActivityPayload): Promise<ActivityPayload | null> {
+    if (this.strict) {
+      const issues = validateActivity(activity);
+      if (issues.length > 0) return Promise.reject(new ActivityValidationError(issues));
+    }
+
     this.lastActivity = activity;
 
-    if (!this.isReady) {
-      console.warn('Attempted to set activity before client was ready.');
-      return;
+    if (!this.isConnected) {
+      return this.queueActivity();
+    }
+
+    // Nothing to send if this activity was the last one sent and no other update is queued
+    if (!this.activityLimiter?.isPending && this.sentActivity && isDeepEqual(this.sentActivity.activity, activity)) {
+      return this.sentActivity.response;
     }
 
-    return this.request(Command.SET_ACTIVITY, { pid: process.pid ?? null, activity });
+    return this.activityLimiter ? this.activityLimiter.push(activity) : this.sendActivity(activity);
+  }
+
+  /**
+   * Updates parts of the current activity, deep-merging the patch into the last activity.
+   * Fields set to undefined are removed. Does nothing if the resulting activity is unchanged.
+   * @param patch Partial activity to apply
+   * @returns Promise that resolves once the patched activity or a newer one has been applied
+   * @example
+   * client.patchActivity({ state: 'In a match', party: { size: [2, 4] } });
+   */
+  patchActivity(patch: ActivityPatch) {
+    return this.setActivity(deepMerge(this.lastActivity ?? {}, patch));
   }
 
   /**
    * Clears the current Rich Presence activity.
-   * @returns void
+   * @returns Promise that resolves once the activity has been cleared or a newer one applied
    */
-  clearActivity() {
+  clearActivity(): Promise<ActivityPayload | null> {
     this.lastActivity = undefined;
 
-    if (!this.isReady) {
-      console.warn('Attempted to clear activity before client was ready.');
-      return;
+    if (!this.isConnected) {
+      return this.queueActivity();
     }
 
-    return this.request(Command.SET_ACTIVITY, { pid: process.pid ?? null, activity: null });
+    return this.activityLimiter ? this.activityLimiter.push(null) : this.sendActivity(null);
+  }
+
+  /**
+   * Queues a single activity update until READY, which applies whatever the last activity is by then.
+   * Activity updates are often fire-and-forget, so a dropped update resolves with null instead of rejecting.
+   * The last activity is still restored after the next READY.
+   * @returns Promise that resolves once the last activity has been applied, or with null if the update was dropped
+   */
+  private queueActivity(): Promise<ActivityPayload | null> {
+    if (!this.queuedActivity) {
+      this.queuedActivity = this.enqueue(Command.SET_ACTIVITY).then(
+        () => {
+          this.queuedActivity = undefined;
+          return this.lastActivity ? this.setActivity(this.lastActivity) : this.clearActivity();
+        },
+        (err) => {
+          this.queuedActivity = undefined;
+          if (!(err instanceof RequestCancelledError && DROPPABLE_ACTIVITY_REASONS.includes(err.reason))) throw err;
+
+          this.logger.warn(`Dropped the queued activity update (${err.reason}).`);
+          return null;
+        },
+      );
+    }
+
+    return this.queuedActivity;
+  }
+
+  /**
+   * Sends a SET_ACTIVITY command, bypassing the rate limiter.
+   * @param activity Activity payload to set, or null to clear it
+   * @returns Promise that resolves with Discord's response
+   */
+  private sendActivity(activity: ActivityPayload | null): Promise<ActivityPayload | null> {
+    if (this.sentActivity && isDeepEqual(this.sentActivity.activity, activity)) {
+      return this.sentActivity.response;
+    }
+
+    // Snapshot the payload so later mutations by the caller aren't mistaken for the sent state
+    const snapshot: ActivityPayload | null = JSON.parse(JSON.stringify(activity));
+    const sent = { activity: snapshot, response: this.request(Command.SET_ACTIVITY, { pid: process.pid ?? null, activity }) };
+    this.sentActivity = sent;
+
+    // Discord's activity is unknown after a failed update, so the next one has to be sent
+    sent.response.catch(() => {
+      if (this.sentActivity === sent) this.sentActivity = undefined;
+    });
+
+    return sent.response;
   }
 
   /**
@@ -382,7 +1350,7 @@ export class Client extends EventEmitter {
    * Retrieves the user's relationships.
    * @returns Promise that resolves with the user's relationships
    */
-  getRelationships(): Promise<any> {
+  getRelationships(): Promise<{ relationships: Relationship[] }> {
     return this.request(Command.GET_RELATIONSHIPS);
   }
 
@@ -393,7 +1361,7 @@ export class Client extends EventEmitter {
    * @param metadata Additional metadata for the lobby
    * @returns Promise that resolves with the created lobby information
    */
-  createLobby(type: LobbyType, capacity: number, metadata: object): Promise<any> {
+  createLobby(type: LobbyType, capacity: number, metadata: object): Promise<Lobby> {
     return this.request(Command.CREATE_LOBBY, {
       type,
       capacity,
@@ -406,7 +1374,7 @@ export class Client extends EventEmitter {
    * @param lobbyId ID of the lobby to delete
    * @returns Promise that resolves when the lobby is deleted
    */
-  deleteLobby(lobbyId: string): Promise<any> {
+  deleteLobby(lobbyId: string): Promise<null> {
     return this.request(Command.DELETE_LOBBY, {
       id: lobbyId,
     });
@@ -421,7 +1389,7 @@ export class Client extends EventEmitter {
   updateLobby(
     lobbyId: string,
     { type, ownerId, capacity, metadata }: { type?: LobbyType; ownerId?: string; capacity?: number; metadata?: object } = {},
-  ): Promise<any> {
+  ): Promise<null> {
     return this.request(Command.UPDATE_LOBBY, {
       id: lobbyId,
       type,
@@ -437,7 +1405,7 @@ export class Client extends EventEmitter {
    * @param secret Secret key for the lobby
    * @returns Promise that resolves when connected to the lobby
    */
-  connectToLobby(lobbyId: string, secret: string): Promise<any> {
+  connectToLobby(lobbyId: string, secret: string): Promise<Lobby> {
     return this.request(Command.CONNECT_TO_LOBBY, {
       id: lobbyId,
       secret,
@@ -450,7 +1418,7 @@ export class Client extends EventEmitter {
    * @param data Data to send to the lobby members
    * @returns Promise that resolves when the data is sent
    */
-  sendToLobby(lobbyId: string, data: any): Promise<any> {
+  sendToLobby(lobbyId: string, data: any): Promise<null> {
     return this.request(Command.SEND_TO_LOBBY, {
       id: lobbyId,
       data,
@@ -462,7 +1430,7 @@ export class Client extends EventEmitter {
    * @param lobbyId ID of the lobby to disconnect from
    * @returns Promise that resolves when disconnected from the lobby
    */
-  disconnectFromLobby(lobbyId: string): Promise<any> {
+  disconnectFromLobby(lobbyId: string): Promise<null> {
     return this.request(Command.DISCONNECT_FROM_LOBBY, {
       id: lobbyId,
     });
@@ -475,7 +1443,7 @@ export class Client extends EventEmitter {
    * @param param2 Object containing optional update fields
    * @returns
    */
-  updateLobbyMember(lobbyId: string, userId: string, { metadata }: { metadata?: object } = {}): Promise<any> {
+  updateLobbyMember(lobbyId: string, userId: string, { metadata }: { metadata?: object } = {}): Promise<null> {
     return this.request(Command.UPDATE_LOBBY_MEMBER, {
       lobby_id: lobbyId,
       user_id: userId,
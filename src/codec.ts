@@ -0,0 +1,223 @@
+// Libraries
+import { EventEmitter } from 'node:events';
+// Internal
+import { ProtocolError } from './errors';
+import { isPlainObject } from './utils';
+// Types
+import { OpCode, type DecodedFrame, type FrameCodecOptions, type FrameDecoderEvents } from './types';
+
+/**
+ * Size of the frame header: OpCode and body length, both uint32 little endian
+ */
+export const FRAME_HEADER_SIZE = 8;
+
+/**
+ * Default maximum size of a frame body in bytes
+ */
+export const DEFAULT_MAX_FRAME_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Capacity the decoder buffer starts with and shrinks back to on reset
+ */
+const INITIAL_BUFFER_SIZE = 4096;
+
+/**
+ * Checks whether a number read from a frame header is a known OpCode.
+ * @param op Number to check
+ * @returns true if the number is an OpCode
+ */
+function isOpCode(op: number): op is OpCode {
+  return op in OpCode && typeof OpCode[op] === 'string';
+}
+
+/**
+ * Encodes payloads into IPC frames.
+ * @example
+ * const encoder = new FrameEncoder();
+ * socket.write(encoder.encode(OpCode.HANDSHAKE, { v: 1, client_id: '1234' }));
+ */
+export class FrameEncoder {
+  /**
+   * Maximum size of a frame body in bytes
+   */
+  private maxFrameSize: number;
+
+  /**
+   * Initializes a new frame encoder.
+   */
+  constructor(options?: FrameCodecOptions) {
+    this.maxFrameSize = options?.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+  }
+
+  /**
+   * Encodes a payload into a single frame.
+   * @param op OpCode of the frame
+   * @param payload Payload object to send
+   * @returns Buffer holding the header and JSON body
+   * @throws ProtocolError if the OpCode is unknown or the body exceeds the maximum frame size
+   */
+  encode(op: OpCode, payload: object): Buffer {
+    if (!isOpCode(op)) {
+      throw new ProtocolError('unknown_opcode', `Cannot encode a frame with unknown OpCode ${op}.`, op);
+    }
+
+    const body = JSON.stringify(payload);
+    const length = Buffer.byteLength(body);
+    if (length > this.maxFrameSize) {
+      throw new ProtocolError('frame_too_large', `Frame of ${length} bytes exceeds the maximum of ${this.maxFrameSize} bytes.`, op);
+    }
+
+    const frame = Buffer.allocUnsafe(FRAME_HEADER_SIZE + length);
+    frame.writeUInt32LE(op, 0);
+    frame.writeUInt32LE(length, 4);
+    frame.write(body, FRAME_HEADER_SIZE);
+    return frame;
+  }
+}
+
+/**
+ * Listener for a frame decoder event.
+ */
+export type FrameDecoderEventListener<K extends keyof FrameDecoderEvents> = (data: FrameDecoderEvents[K]) => void;
+
+/**
+ * Typed event methods of the FrameDecoder, see `FrameDecoderEvents` for all events and their payloads.
+ */
+export interface FrameDecoder {
+  on<K extends keyof FrameDecoderEvents>(event: K, listener: FrameDecoderEventListener<K>): this;
+  once<K extends keyof FrameDecoderEvents>(event: K, listener: FrameDecoderEventListener<K>): this;
+  off<K extends keyof FrameDecoderEvents>(event: K, listener: FrameDecoderEventListener<K>): this;
+  emit<K extends keyof FrameDecoderEvents>(event: K, data: FrameDecoderEvents[K]): boolean;
+}
+
+/**
+ * Decodes a stream of IPC bytes into frames.
+ * Chunks may split or join frames arbitrarily. Invalid frames are reported through the
+ * 'protocolError' event and skipped, so a corrupt payload never throws inside a socket handler.
+ * @example
+ * const decoder = new FrameDecoder();
+ * decoder.on('frame', ({ op, payload }) => console.log(op, payload));
+ * decoder.on('protocolError', (err) => console.error(err));
+ * socket.on('data', (chunk) => decoder.push(chunk));
+ */
+export class FrameDecoder extends EventEmitter {
+  /**
+   * Maximum size of a frame body in bytes
+   */
+  private maxFrameSize: number;
+
+  /**
+   * Backing storage, grown by doubling so appending chunks is amortized O(1)
+   */
+  private buffer = Buffer.allocUnsafe(INITIAL_BUFFER_SIZE);
+
+  /**
+   * Offset of the first unread byte in the buffer
+   */
+  private start = 0;
+
+  /**
+   * Offset after the last written byte in the buffer
+   */
+  private end = 0;
+
+  /**
+   * Initializes a new frame decoder.
+   */
+  constructor(options?: FrameCodecOptions) {
+    super();
+    this.maxFrameSize = options?.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+  }
+
+  /**
+   * Number of bytes received which don't form a complete frame yet.
+   */
+  public get bufferedLength() {
+    return this.end - this.start;
+  }
+
+  /**
+   * Appends a chunk of the stream and emits every frame it completes.
+   * A frame exceeding the maximum size drops all buffered data, as the stream can't be resynchronized.
+   * @param chunk Bytes received from the socket
+   */
+  push(chunk: Uint8Array) {
+    this.reserve(chunk.length);
+    this.buffer.set(chunk, this.end);
+    this.end += chunk.length;
+
+    while (this.bufferedLength >= FRAME_HEADER_SIZE) {
+      const op = this.buffer.readUInt32LE(this.start);
+      const length = this.buffer.readUInt32LE(this.start + 4);
+
+      // Checked before waiting for the body so a bogus header can't make us buffer gigabytes
+      if (length > this.maxFrameSize) {
+        this.reset();
+        this.emit('protocolError', new ProtocolError('frame_too_large', `Frame of ${length} bytes exceeds the maximum of ${this.maxFrameSize} bytes.`, op));
+        return;
+      }
+      if (this.bufferedLength < FRAME_HEADER_SIZE + length) break;
+
+      const bodyStart = this.start + FRAME_HEADER_SIZE;
+      const body = this.buffer.toString('utf8', bodyStart, bodyStart + length);
+      this.start = bodyStart + length;
+
+      if (!isOpCode(op)) {
+        this.emit('protocolError', new ProtocolError('unknown_opcode', `Received a frame with unknown OpCode ${op}.`, op));
+        continue;
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch (err) {
+        this.emit('protocolError', new ProtocolError('invalid_json', `Received a frame with an invalid JSON body (OpCode ${op}).`, op, err as Error));
+        continue;
+      }
+      // Valid JSON like `null` or `42` can't be a Discord payload
+      if (!isPlainObject(payload)) {
+        this.emit('protocolError', new ProtocolError('invalid_payload', `Received a frame whose body is not a JSON object (OpCode ${op}).`, op));
+        continue;
+      }
+
+      this.emit('frame', { op, payload } satisfies DecodedFrame);
+    }
+
+    if (this.start === this.end) {
+      this.start = 0;
+      this.end = 0;
+    }
+  }
+
+  /**
+   * Drops all buffered data, eg. when the underlying socket is replaced.
+   */
+  reset() {
+    this.start = 0;
+    this.end = 0;
+    if (this.buffer.length > INITIAL_BUFFER_SIZE) {
+      this.buffer = Buffer.allocUnsafe(INITIAL_BUFFER_SIZE);
+    }
+  }
+
+  /**
+   * Makes room for more bytes after the unread data, compacting or growing the buffer.
+   * @param size Number of bytes about to be written
+   */
+  private reserve(size: number) {
+    if (this.end + size <= this.buffer.length) return;
+
+    const unread = this.bufferedLength;
+    let target = this.buffer;
+    if (unread + size > this.buffer.length) {
+      let capacity = this.buffer.length * 2;
+      while (capacity < unread + size) capacity *= 2;
+      target = Buffer.allocUnsafe(capacity);
+    }
+
+    this.buffer.copy(target, 0, this.start, this.end);
+    this.buffer = target;
+    this.start = 0;
+    this.end = unread;
+  }
+}
@@ -1,57 +1,60 @@
 // Libraries
-import { existsSync, realpathSync } from 'node:fs';
-import { connect, type Socket } from 'node:net';
-import { join } from 'node:path';
+import type { Socket } from 'node:net';
+// Internal
+import { FrameDecoder, FrameEncoder } from './codec';
+import { getDefaultPathList, getSocketPaths, IPC_PIPE_COUNT, isUnreachable, openSocket } from './discovery';
+import { NotConnectedError, type ProtocolError } from './errors';
+import type { TrafficRecorder } from './recorder';
 // Types
-import type { OpCode, PathData } from './types';
-
-const IPC_SOCKET_NAME = 'discord-ipc';
-const WINDOWS_IPC_PIPE_PATH = `\\\\?\\pipe\\${IPC_SOCKET_NAME}`;
-
-const { XDG_RUNTIME_DIR, TMPDIR, TMP, TEMP } = process.env;
-const UNIX_TEMP_DIR_FALLBACK = '/tmp';
-
-const defaultPathList: PathData[] = [
-  {
-    platform: ['win32'],
-    format: (id) => `${WINDOWS_IPC_PIPE_PATH}-${id}`,
-  },
-  // MacOS and Linux
-  {
-    platform: ['darwin', 'linux'],
-    format: (id) => {
-      const prefix = realpathSync(XDG_RUNTIME_DIR ?? TMPDIR ?? TMP ?? TEMP ?? UNIX_TEMP_DIR_FALLBACK);
-      return join(prefix, `${IPC_SOCKET_NAME}-${id}`);
-    },
-  },
-  // Linux (Snap)
-  {
-    platform: ['linux'],
-    format: (id) => {
-      const prefix = realpathSync(XDG_RUNTIME_DIR ?? TMPDIR ?? TMP ?? TEMP ?? UNIX_TEMP_DIR_FALLBACK);
-      return join(prefix, 'snap.discord', `${IPC_SOCKET_NAME}-${id}`);
-    },
-  },
-  // Linux (Flatpak)
-  {
-    platform: ['linux'],
-    format: (id) => {
-      const prefix = realpathSync(XDG_RUNTIME_DIR ?? TMPDIR ?? TMP ?? TEMP ?? UNIX_TEMP_DIR_FALLBACK);
-
-      return join(prefix, 'app', 'com.discordapp.Discord', `${IPC_SOCKET_NAME}-${id}`);
-    },
-  },
-];
-
-export class SocketConnection {
+import type { FrameCodecOptions, OpCode, PathData, Transport } from './types';
+
+/**
+ * Options for the SocketConnection constructor
+ */
+export type SocketConnectionOptions = FrameCodecOptions & {
+  /**
+   * Records every frame sent and received, eg. to attach to a bug report
+   */
+  recorder?: TrafficRecorder;
+  /**
+   * Connect to this socket path only, eg. one returned by `listDiscordInstances()`.
+   * Takes precedence over the `DISCORD_IPC_PATH` environment variable.
+   */
+  path?: string;
+  /**
+   * Additional locations to search before the default ones
+   */
+  pathList?: PathData[];
+};
+
+/**
+ * Encoded frame waiting for the socket to drain.
+ */
+type PendingWrite = {
+  op: OpCode;
+  frame: Buffer;
+  resolve: () => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Transport over the Discord IPC pipe (Windows) or Unix socket.
+ */
+export class SocketConnection implements Transport {
   /**
    * Socket connection to Discord IPC
    */
   private socket?: Socket;
+
   /**
-   * Buffer for incoming data
+   * Encoder for outgoing frames
    */
-  private buffer = Buffer.alloc(0);
+  private encoder: FrameEncoder;
+
+  /**
+   * Decoder for incoming frames
+   */
+  private decoder: FrameDecoder;
 
   /**
    * Callback for incoming data
@@ -64,89 +67,115 @@ export class SocketConnection {
   private closeCallback?: () => void;
 
   /**
-   * Connects to the Discord IPC socket.
-   * @param index Pipe index (0-9)
-   * @returns Promise that resolves when connected
+   * Recorder for every frame sent and received
    */
-  async connect(index = 0): Promise<void> {
-    if (index > 9) {
-      throw new Error('Could not find a running Discord instance after searching 10 pipes.');
-    }
+  private recorder?: TrafficRecorder;
 
-    const useablePath: string[] = [];
-    for (const path of defaultPathList) {
-      if (!path.platform.includes(process.platform)) continue;
-      const socketPath = path.format(index);
+  /**
+   * Socket path to connect to instead of searching
+   */
+  private path?: string;
 
-      // Skip if the socket path doesn't exist (only for non-Windows platforms)
-      if (process.platform !== 'win32' && !existsSync(socketPath)) continue;
-      useablePath.push(socketPath);
-    }
+  /**
+   * Locations searched for the Discord socket, in order
+   */
+  private pathList: PathData[];
 
-    if (useablePath.length === 0) {
-      // Skip to the next pipe ID if no useable path is found
-      return this.connect(index + 1);
-    }
+  /**
+   * Frames held back until the socket drains, in send order
+   */
+  private writeQueue: PendingWrite[] = [];
 
-    return new Promise((resolve, reject) => {
-      for (const path of useablePath) {
-        // Clean up old socket if it exists from a previous failed attempt
-        if (this.socket) {
-          this.socket.destroy();
-          this.socket.removeAllListeners();
-        }
-
-        this.socket = connect(path);
-
-        this.socket.once('connect', () => {
-          this.socket?.removeAllListeners('error'); // Stop the retry logic once connected
-          this.setupBufferHandler();
-          resolve();
-        });
-
-        this.socket.once('error', (err: any) => {
-          this.socket?.destroy();
-
-          // Only retry if the pipe doesn't exist
-          if (err.code === 'ENOENT') {
-            resolve(this.connect(index + 1));
-          } else {
-            reject(err);
-          }
-        });
-      }
+  /**
+   * Whether the socket's write buffer is full and writes are queued until 'drain'
+   */
+  private isDraining = false;
+
+  /**
+   * Callback for invalid incoming frames
+   */
+  private protocolErrorCallback?: (error: ProtocolError) => void;
+
+  /**
+   * Initializes a new IPC socket transport.
+   * @param options Frame size limit of the codec and an optional traffic recorder
+   */
+  constructor(options?: SocketConnectionOptions) {
+    this.encoder = new FrameEncoder(options);
+    this.decoder = new FrameDecoder(options);
+    this.recorder = options?.recorder;
+    this.path = options?.path;
+    this.pathList = [...(options?.pathList ?? []), ...getDefaultPathList()];
+
+    this.decoder.on('frame', ({ op, payload }) => {
+      this.recorder?.record('in', op, payload);
+      // Trigger the callback registered by the Client
+      this.dataCallback?.(op, payload);
+    });
+    this.decoder.on('protocolError', (error) => {
+      this.protocolErrorCallback?.(error);
+      // The rest of the stream is garbage, start over with a fresh connection
+      if (error.fatal) this.socket?.destroy();
     });
   }
 
   /**
-   * Preserves your original buffering logic while linking it
-   * to the Client's centralized handler.
+   * Connects to the first available Discord IPC socket.
+   * The `path` option, then the `DISCORD_IPC_PATH` environment variable, replace the search if set.
+   * @returns Promise that resolves when connected
+   * @throws Error if no Discord instance could be reached
    */
-  private setupBufferHandler() {
-    this.socket?.on('data', (chunk: Buffer) => {
-      // Your original logic: Append new data to our existing buffer
-      this.buffer = Buffer.concat([this.buffer, chunk]);
+  async connect(): Promise<void> {
+    const override = this.path ?? process.env.DISCORD_IPC_PATH;
+    const candidates = override
+      ? [override]
+      : Array.from({ length: IPC_PIPE_COUNT }, (_, index) => getSocketPaths(this.pathList, index)).flat();
 
-      // Process all full packets in the buffer
-      while (this.buffer.length >= 8) {
-        const op = this.buffer.readUInt32LE(0);
-        const len = this.buffer.readUInt32LE(4);
+    for (const path of candidates) {
+      let socket: Socket;
+      try {
+        socket = await openSocket(path);
+      } catch (err) {
+        // Only move on if nothing listens there
+        if (isUnreachable(err)) continue;
+        throw err;
+      }
 
-        if (this.buffer.length >= 8 + len) {
-          const packetData = this.buffer.subarray(8, 8 + len);
-          const payload = JSON.parse(packetData.toString());
+      // Clean up the socket of a previous connection
+      if (this.socket) {
+        this.socket.removeAllListeners();
+        this.socket.destroy();
+      }
+      this.socket = socket;
+      this.setupBufferHandler();
+      return;
+    }
 
-          // Trigger the callback registered by the Client
-          this.dataCallback?.(op, payload);
+    throw new Error(
+      override
+        ? `Could not connect to the Discord instance at ${override}.`
+        : `Could not find a running Discord instance after searching ${IPC_PIPE_COUNT} pipes.`,
+    );
+  }
 
-          this.buffer = this.buffer.subarray(8 + len);
-        } else {
-          break;
-        }
-      }
+  /**
+   * Feeds incoming data of the connected socket to the frame decoder.
+   */
+  private setupBufferHandler() {
+    // Leftovers of a previous connection would corrupt the first frames
+    this.decoder.reset();
+
+    this.socket?.on('data', (chunk: Buffer) => {
+      this.decoder.push(chunk);
     });
 
-    this.socket?.on('close', () => {
+    const socket = this.socket;
+    socket?.on('error', () => {
+      // Errors are followed by 'close', which handles cleanup
+    });
+    socket?.on('close', () => {
+      // A newer socket may already be connecting
+      if (this.socket === socket) this.rejectWrites();
       this.closeCallback?.();
     });
   }
@@ -160,15 +189,65 @@ export class SocketConnection {
 
   /**
    * Sends a payload to Discord over the socket connection.
+   * While the socket is draining, frames are queued and written in order once it drains.
    * @param op OpCode of the payload
    * @param payload Payload object to send
+   * @returns Promise that resolves once the frame was flushed to the socket
+   * @throws NotConnectedError if no socket is connected
+   * @throws ProtocolError if the payload can't be encoded
+   */
+  send(op: OpCode, payload: object): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.connecting || socket.destroyed || !socket.writable) {
+      return Promise.reject(new NotConnectedError(op));
+    }
+
+    let frame: Buffer;
+    try {
+      frame = this.encoder.encode(op, payload);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    this.recorder?.record('out', op, payload);
+
+    return new Promise((resolve, reject) => {
+      const write: PendingWrite = { op, frame, resolve, reject };
+      if (this.isDraining) {
+        this.writeQueue.push(write);
+      } else {
+        this.write(socket, write);
+      }
+    });
+  }
+
+  /**
+   * Writes a frame and waits for 'drain' if the socket's buffer is full.
+   * @param socket Socket to write to
+   * @param write Frame to write and its promise callbacks
+   */
+  private write(socket: Socket, { frame, resolve, reject }: PendingWrite) {
+    const hasRoom = socket.write(frame, (err) => (err ? reject(err) : resolve()));
+    if (hasRoom) return;
+
+    this.isDraining = true;
+    socket.once('drain', () => {
+      this.isDraining = false;
+      while (this.writeQueue.length > 0 && !this.isDraining && this.socket === socket) {
+        this.write(socket, this.writeQueue.shift()!);
+      }
+    });
+  }
+
+  /**
+   * Rejects every queued frame once the socket is gone.
    */
-  send(op: OpCode, payload: object) {
-    const encoded = Buffer.from(JSON.stringify(payload));
-    const header = Buffer.alloc(8);
-    header.writeUInt32LE(op, 0);
-    header.writeUInt32LE(encoded.length, 4);
-    this.socket?.write(Buffer.concat([header, encoded]));
+  private rejectWrites() {
+    const writes = this.writeQueue;
+    this.writeQueue = [];
+    this.isDraining = false;
+    for (const { op, reject } of writes) {
+      reject(new NotConnectedError(op, 'Connection to Discord closed before the frame was sent.'));
+    }
   }
 
   /**
@@ -179,14 +258,11 @@ export class SocketConnection {
   }
 
   /**
-   * Sets a custom path list for the socket connection.
+   * Adds locations to search before the ones already known, for this connection only.
    * @param pathList Array of PathData objects
    */
   setPathList(pathList: PathData[]) {
-    for (const path of pathList) {
-      // Add the path to the beginning of the list
-      defaultPathList.unshift(path);
-    }
+    this.pathList = [...pathList, ...this.pathList];
   }
 
   /**
@@ -196,4 +272,12 @@ export class SocketConnection {
   onClose(callback: () => void) {
     this.closeCallback = callback;
   }
+
+  /**
+   * Registers a callback for invalid incoming frames.
+   * @param callback Function to call with each protocol error
+   */
+  onProtocolError(callback: (error: ProtocolError) => void) {
+    this.protocolErrorCallback = callback;
+  }
 }
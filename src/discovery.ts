@@ -0,0 +1,135 @@
+// Libraries
+import { existsSync, realpathSync } from 'node:fs';
+import { connect, type Socket } from 'node:net';
+import { join } from 'node:path';
+// Types
+import type { DiscordInstance, PathData } from './types';
+
+const IPC_SOCKET_NAME = 'discord-ipc';
+const WINDOWS_IPC_PIPE_PATH = `\\\\?\\pipe\\${IPC_SOCKET_NAME}`;
+
+const UNIX_TEMP_DIR_FALLBACK = '/tmp';
+
+/**
+ * Number of pipes Discord instances may listen on, one per running instance (eg. Stable, PTB and Canary)
+ */
+export const IPC_PIPE_COUNT = 10;
+
+/**
+ * Error codes meaning nothing listens on a socket path, so the next one should be tried
+ */
+const UNREACHABLE_CODES = ['ENOENT', 'ECONNREFUSED'];
+
+/**
+ * Resolves the directory Discord creates its socket in.
+ * The environment is read on every call so changes after import are honoured.
+ * @returns Absolute path of the runtime directory
+ */
+const getRuntimeDir = (): string => {
+  const { XDG_RUNTIME_DIR, TMPDIR, TMP, TEMP } = process.env;
+  const dir = XDG_RUNTIME_DIR ?? TMPDIR ?? TMP ?? TEMP ?? UNIX_TEMP_DIR_FALLBACK;
+
+  try {
+    return realpathSync(dir);
+  } catch {
+    return dir;
+  }
+};
+
+/**
+ * Creates the list of locations the Discord client creates its socket in on each platform.
+ * @returns A new list, safe to modify
+ */
+export const getDefaultPathList = (): PathData[] => [
+  {
+    platform: ['win32'],
+    format: (id) => `${WINDOWS_IPC_PIPE_PATH}-${id}`,
+  },
+  // MacOS and Linux
+  {
+    platform: ['darwin', 'linux'],
+    format: (id) => join(getRuntimeDir(), `${IPC_SOCKET_NAME}-${id}`),
+  },
+  // Linux (Snap)
+  {
+    platform: ['linux'],
+    format: (id) => join(getRuntimeDir(), 'snap.discord', `${IPC_SOCKET_NAME}-${id}`),
+  },
+  // Linux (Flatpak)
+  {
+    platform: ['linux'],
+    format: (id) => join(getRuntimeDir(), 'app', 'com.discordapp.Discord', `${IPC_SOCKET_NAME}-${id}`),
+  },
+];
+
+/**
+ * Lists the socket paths to try for a pipe index on the current platform.
+ * @param pathList Locations to check, in order
+ * @param index Pipe index (0-9)
+ * @returns Unique socket paths, skipping files which don't exist (except on Windows)
+ */
+export const getSocketPaths = (pathList: PathData[], index: number): string[] => {
+  const paths: string[] = [];
+  for (const path of pathList) {
+    if (!path.platform.includes(process.platform)) continue;
+    const socketPath = path.format(index);
+
+    // Skip if the socket path doesn't exist (only for non-Windows platforms)
+    if (process.platform !== 'win32' && !existsSync(socketPath)) continue;
+    if (!paths.includes(socketPath)) paths.push(socketPath);
+  }
+  return paths;
+};
+
+/**
+ * Opens a socket to a path.
+ * @param path Socket path or Windows pipe name
+ * @returns Promise that resolves with the connected socket
+ */
+export const openSocket = (path: string): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = connect(path);
+
+    socket.once('connect', () => {
+      socket.removeListener('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', (err) => {
+      socket.destroy();
+      reject(err);
+    });
+  });
+
+/**
+ * Checks whether an error means nothing listens on the socket path.
+ * @param err Error thrown while connecting
+ * @returns true if the next path should be tried
+ */
+export const isUnreachable = (err: any) => UNREACHABLE_CODES.includes(err?.code);
+
+/**
+ * Probes pipes 0-9 and returns every reachable Discord socket.
+ * Useful when Stable, PTB and Canary run side by side, pass the chosen path to `SocketConnection`.
+ * @param pathList Locations to check, defaults to the platform's standard locations
+ * @returns Promise that resolves with the reachable instances in pipe order
+ * @example
+ * const [instance] = await listDiscordInstances();
+ * const client = new Client({ transport: new SocketConnection({ path: instance.path }) });
+ */
+export const listDiscordInstances = async (pathList: PathData[] = getDefaultPathList()): Promise<DiscordInstance[]> => {
+  const instances: DiscordInstance[] = [];
+
+  for (let index = 0; index < IPC_PIPE_COUNT; index++) {
+    for (const path of getSocketPaths(pathList, index)) {
+      try {
+        const socket = await openSocket(path);
+        socket.destroy();
+        instances.push({ index, path });
+      } catch {
+        // Stale socket file or missing pipe
+      }
+    }
+  }
+
+  return instances;
+};
@@ -0,0 +1,193 @@
+// Types
+import type { ActivityIssue, CloseCodes, Command, ConnectionState, OpCode, RPCErrorCode } from './types';
+
+/**
+ * Error returned by Discord in response to a command, or dispatched as an ERROR event.
+ * @example
+ * if (err instanceof RPCError && err.code === RPCErrorCode.LOBBY_FULL) { ... }
+ */
+export class RPCError extends Error {
+  /**
+   * Discord error code
+   */
+  public readonly code: RPCErrorCode | number;
+
+  /**
+   * Command which failed, if the error answers a command
+   */
+  public readonly cmd?: Command;
+
+  /**
+   * Nonce of the failed request, if the error answers a command
+   */
+  public readonly nonce?: string;
+
+  /**
+   * Raw frame received from Discord
+   */
+  public readonly payload: any;
+
+  constructor(code: RPCErrorCode | number, message: string, { cmd, nonce, payload }: { cmd?: Command; nonce?: string; payload?: any } = {}) {
+    super(message);
+    this.name = 'RPCError';
+    this.code = code;
+    this.cmd = cmd;
+    this.nonce = nonce ?? undefined;
+    this.payload = payload;
+  }
+}
+
+/**
+ * Error describing why Discord closed the connection.
+ */
+export class ConnectionClosedError extends Error {
+  /**
+   * Close code sent by Discord
+   */
+  public readonly code: CloseCodes | number;
+
+  /**
+   * Raw CLOSE payload received from Discord, if any
+   */
+  public readonly payload: any;
+
+  constructor(code: CloseCodes | number, message: string, payload?: any) {
+    super(message);
+    this.name = 'ConnectionClosedError';
+    this.code = code;
+    this.payload = payload;
+  }
+}
+
+/**
+ * Error thrown when a frame is sent while the transport has no open connection.
+ */
+export class NotConnectedError extends Error {
+  /**
+   * OpCode of the frame which couldn't be sent
+   */
+  public readonly op: OpCode;
+
+  constructor(op: OpCode, message?: string) {
+    super(message ?? 'Cannot send a frame, no connection to Discord is open.');
+    this.name = 'NotConnectedError';
+    this.op = op;
+  }
+}
+
+/**
+ * Reason a request was cancelled before Discord answered it.
+ */
+export type RequestCancelReason = 'timeout' | 'aborted' | 'disconnected' | 'destroyed' | 'expired' | 'overflow';
+
+/**
+ * Error thrown when a request is cancelled before a response arrives.
+ */
+export class RequestCancelledError extends Error {
+  /**
+   * Why the request was cancelled
+   */
+  public readonly reason: RequestCancelReason;
+
+  /**
+   * Command of the cancelled request
+   */
+  public readonly cmd: Command;
+
+  /**
+   * Nonce of the cancelled request, undefined if it was never sent
+   */
+  public readonly nonce?: string;
+
+  constructor(reason: RequestCancelReason, cmd: Command, nonce?: string, message?: string, cause?: Error) {
+    super(message ?? `${cmd} request was cancelled (${reason}).`, cause ? { cause } : undefined);
+    this.name = 'RequestCancelledError';
+    this.reason = reason;
+    this.cmd = cmd;
+    this.nonce = nonce;
+  }
+}
+
+/**
+ * Error thrown when an operation isn't allowed in the client's current state, eg. `setActivity` after `destroy()`.
+ */
+export class InvalidStateError extends Error {
+  /**
+   * State the client was in
+   */
+  public readonly state: ConnectionState;
+
+  /**
+   * Operation which was attempted
+   */
+  public readonly operation: string;
+
+  constructor(operation: string, state: ConnectionState, message?: string) {
+    super(message ?? `Cannot ${operation} while the client is ${state}.`);
+    this.name = 'InvalidStateError';
+    this.operation = operation;
+    this.state = state;
+  }
+}
+
+/**
+ * Error thrown when a transport can't work in the current runtime, eg. the WebSocket transport without a WebSocket implementation.
+ * Reconnecting can't fix it, so the client gives up right away.
+ */
+export class UnsupportedTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedTransportError';
+  }
+}
+
+/**
+ * Reason an IPC frame was rejected by the codec.
+ */
+export type ProtocolErrorReason = 'frame_too_large' | 'unknown_opcode' | 'invalid_json' | 'invalid_payload';
+
+/**
+ * Error describing an IPC frame which breaks the protocol, eg. a corrupt payload.
+ * Decoders emit it as a 'protocolError' event instead of throwing.
+ */
+export class ProtocolError extends Error {
+  /**
+   * Why the frame was rejected
+   */
+  public readonly reason: ProtocolErrorReason;
+
+  /**
+   * OpCode read from the frame header, if any
+   */
+  public readonly op?: number;
+
+  /**
+   * Whether the byte stream can't be recovered after this error and the connection should be closed
+   */
+  public readonly fatal: boolean;
+
+  constructor(reason: ProtocolErrorReason, message: string, op?: number, cause?: Error) {
+    super(message, cause ? { cause } : undefined);
+    this.name = 'ProtocolError';
+    this.reason = reason;
+    this.op = op;
+    // The oversized body is never read, so the next header can't be found
+    this.fatal = reason === 'frame_too_large';
+  }
+}
+
+/**
+ * Error thrown in strict mode when an activity payload is invalid, before it is sent to Discord.
+ */
+export class ActivityValidationError extends Error {
+  /**
+   * Every problem found in the payload
+   */
+  public readonly issues: ActivityIssue[];
+
+  constructor(issues: ActivityIssue[]) {
+    super(`Invalid activity: ${issues.map(({ path, message }) => `${path}: ${message}`).join('; ')}`);
+    this.name = 'ActivityValidationError';
+    this.issues = issues;
+  }
+}
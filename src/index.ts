@@ -1,3 +1,15 @@
 export * from './builder';
 export * from './client';
+export * from './codec';
+export * from './connection';
+export { getDefaultPathList, listDiscordInstances } from './discovery';
+export * from './errors';
+export * from './logger';
+export * from './mock';
+export * from './recorder';
+export * from './rotator';
+export * from './template';
+export * from './tokens';
 export * from './types';
+export * from './validation';
+export * from './websocket';
@@ -0,0 +1,133 @@
+/**
+ * Settings for the activity rate limiter
+ */
+export type RateLimitOptions = {
+  /**
+   * Maximum number of sends per interval
+   */
+  limit: number;
+  /**
+   * Length of the sliding window in milliseconds
+   */
+  interval: number;
+};
+
+/**
+ * Caller waiting for its value (or a newer one) to be sent.
+ */
+type Waiter<R> = {
+  resolve: (result: R) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Sliding window rate limiter which coalesces values pushed while the window is full.
+ * Only the latest pending value is sent once a slot frees up, and every caller
+ * whose value was superseded resolves with the result of the newer one.
+ */
+export class CoalescingRateLimiter<T, R> {
+  /**
+   * Times of the sends within the current window
+   */
+  private sentAt: number[] = [];
+
+  /**
+   * Latest value waiting for a free slot, and everyone waiting for it
+   */
+  private pending?: { value: T; waiters: Waiter<R>[] };
+
+  /**
+   * Timer for sending the pending value once a slot frees up
+   */
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Limit and interval of the sliding window
+   */
+  private options: RateLimitOptions;
+
+  /**
+   * Function actually sending a value
+   */
+  private sender: (value: T) => Promise<R>;
+
+  /**
+   * Initializes a new rate limiter.
+   * @param options Limit and interval of the sliding window
+   * @param sender Function actually sending a value
+   */
+  constructor(options: RateLimitOptions, sender: (value: T) => Promise<R>) {
+    this.options = options;
+    this.sender = sender;
+  }
+
+  /**
+   * Whether a value is waiting for a free slot.
+   */
+  public get isPending() {
+    return this.pending !== undefined;
+  }
+
+  /**
+   * Queues a value, replacing any value still waiting for a free slot.
+   * @param value Value to send
+   * @returns Promise that resolves once this value or a newer one has been sent
+   */
+  push(value: T): Promise<R> {
+    return new Promise((resolve, reject) => {
+      if (this.pending) {
+        this.pending.value = value;
+        this.pending.waiters.push({ resolve, reject });
+        return;
+      }
+
+      this.pending = { value, waiters: [{ resolve, reject }] };
+      this.flush();
+    });
+  }
+
+  /**
+   * Drops the pending value and resolves every waiting caller with a result, since a newer state superseded it.
+   * @param result Result to resolve the callers with
+   */
+  cancel(result: R) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const waiters = this.pending?.waiters ?? [];
+    this.pending = undefined;
+    for (const waiter of waiters) {
+      waiter.resolve(result);
+    }
+  }
+
+  /**
+   * Sends the pending value if the window allows it, otherwise schedules it for when a slot frees up.
+   */
+  private flush() {
+    if (!this.pending || this.timer) return;
+
+    const now = Date.now();
+    this.sentAt = this.sentAt.filter((time) => now - time < this.options.interval);
+
+    if (this.sentAt.length >= this.options.limit) {
+      const wait = this.sentAt[0] + this.options.interval - now;
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.flush();
+      }, wait);
+      return;
+    }
+
+    const { value, waiters } = this.pending;
+    this.pending = undefined;
+    this.sentAt.push(now);
+
+    this.sender(value).then(
+      (result) => waiters.forEach((waiter) => waiter.resolve(result)),
+      (err) => waiters.forEach((waiter) => waiter.reject(err)),
+    );
+  }
+}
@@ -0,0 +1,99 @@
+// Types
+import { LogLevel, type Logger, type LogMeta } from './types';
+
+/**
+ * Fields whose values are replaced before anything is logged
+ */
+const REDACTED_KEYS = new Set(['access_token', 'refresh_token', 'client_secret', 'code']);
+
+/**
+ * Placeholder logged instead of a redacted value
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copies a value with every secret field replaced by a placeholder.
+ * `code` is only redacted when it is a string (an OAuth2 authorization code), numeric error and close codes are kept.
+ * @param value Value to redact
+ * @returns Redacted copy of the value
+ * @example
+ * redact({ access_token: 'abc', scope: 'rpc' }); // { access_token: '[REDACTED]', scope: 'rpc' }
+ */
+export const redact = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item)) as T;
+  }
+  if (typeof value !== 'object' || value === null || Object.getPrototypeOf(value) !== Object.prototype) {
+    // Errors, buffers and other class instances are logged as they are
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const isSecret = REDACTED_KEYS.has(key) && (key !== 'code' || typeof item === 'string');
+    result[key] = isSecret ? REDACTED : redact(item);
+  }
+  return result as T;
+};
+
+/**
+ * Logger writing to the console, with every message prefixed by the library name.
+ */
+export class ConsoleLogger implements Logger {
+  /**
+   * Logs a debug message with `console.debug`.
+   * @param message Message to log
+   * @param meta Additional data
+   */
+  debug(message: string, meta?: LogMeta) {
+    console.debug(`[discord-rpc-new] ${message}`, ...(meta ? [meta] : []));
+  }
+
+  /**
+   * Logs an informational message with `console.info`.
+   * @param message Message to log
+   * @param meta Additional data
+   */
+  info(message: string, meta?: LogMeta) {
+    console.info(`[discord-rpc-new] ${message}`, ...(meta ? [meta] : []));
+  }
+
+  /**
+   * Logs a warning with `console.warn`.
+   * @param message Message to log
+   * @param meta Additional data
+   */
+  warn(message: string, meta?: LogMeta) {
+    console.warn(`[discord-rpc-new] ${message}`, ...(meta ? [meta] : []));
+  }
+
+  /**
+   * Logs an error with `console.error`.
+   * @param message Message to log
+   * @param meta Additional data
+   */
+  error(message: string, meta?: LogMeta) {
+    console.error(`[discord-rpc-new] ${message}`, ...(meta ? [meta] : []));
+  }
+}
+
+/**
+ * Wraps a logger so messages below the level are dropped and metadata is redacted.
+ * @param logger Destination logger, false to log nothing. Defaults to a ConsoleLogger.
+ * @param level Minimum level to log
+ * @returns Logger used internally by the library
+ */
+export const createLogger = (logger: Logger | false | undefined, level: LogLevel = LogLevel.Warn): Logger => {
+  const target = logger === false ? undefined : (logger ?? new ConsoleLogger());
+  const forward = (messageLevel: LogLevel, method: keyof Logger) => (message: string, meta?: LogMeta) => {
+    if (!target || messageLevel < level) return;
+    target[method](message, meta && redact(meta));
+  };
+
+  return {
+    debug: forward(LogLevel.Debug, 'debug'),
+    info: forward(LogLevel.Info, 'info'),
+    warn: forward(LogLevel.Warn, 'warn'),
+    error: forward(LogLevel.Error, 'error'),
+  };
+};
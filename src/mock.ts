@@ -0,0 +1,398 @@
+// Libraries
+import { EventEmitter } from 'node:events';
+import { existsSync, unlinkSync } from 'node:fs';
+import { createServer, type Server, type Socket } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+// Internal
+import { FrameDecoder, FrameEncoder } from './codec';
+import { generateNonce } from './utils';
+// Types
+import { CloseCodes, Command, Event, OpCode, RPCErrorCode, type PathData, type ReadyResponse } from './types';
+
+/**
+ * A single frame received by the mock server from a client.
+ */
+export interface MockFrame {
+  op: OpCode;
+  payload: any;
+}
+
+/**
+ * Error reply scripted for a command, sent back as an ERROR event.
+ */
+export interface MockErrorReply {
+  code: number;
+  message: string;
+}
+
+/**
+ * Scripted reply for a command. Either static response data or a function computing it from the
+ * command arguments. Throwing (or rejecting) from the function answers with an ERROR event.
+ */
+export type MockCommandHandler = ((args: any, frame: any) => unknown | Promise<unknown>) | object | null;
+
+/**
+ * Options for the MockDiscordServer constructor
+ */
+export type MockDiscordServerOptions = {
+  /**
+   * Path of the socket to listen on. Defaults to a unique path in the OS temp directory.
+   */
+  path?: string;
+  /**
+   * Payload sent with the READY event after a successful handshake, merged into the default one
+   */
+  ready?: Partial<Omit<ReadyResponse, 'config' | 'user'>> & {
+    config?: Partial<ReadyResponse['config']>;
+    user?: Partial<ReadyResponse['user']>;
+  };
+  /**
+   * Only accept handshakes for this client ID. Other IDs are closed with `CloseCodes.INVALID_CLIENTID`.
+   */
+  clientId?: string;
+  /**
+   * Initial scripted replies keyed by command
+   */
+  handlers?: Partial<Record<Command, MockCommandHandler>>;
+};
+
+/**
+ * Default READY payload sent by the mock server.
+ */
+const DEFAULT_READY: ReadyResponse = {
+  v: 1,
+  config: {
+    cdn_host: 'cdn.discordapp.com',
+    api_endpoint: '//discord.com/api',
+    environment: 'production',
+  },
+  user: {
+    id: '1045940839423397918',
+    username: 'mock',
+    discriminator: '0',
+    global_name: 'Mock User',
+    avatar: null,
+    bot: false,
+    flags: 0,
+    premium_type: 0,
+  },
+};
+
+/**
+ * In-process stand-in for the Discord desktop client that speaks the IPC protocol.
+ * Useful for testing presence code without Discord installed.
+ * @example
+ * const server = new MockDiscordServer();
+ * await server.listen();
+ * const client = new Client({ pathList: [server.pathData] });
+ */
+export class MockDiscordServer extends EventEmitter {
+  /**
+   * Path of the socket the server listens on
+   */
+  public readonly path: string;
+
+  /**
+   * Every frame received from clients, in order
+   */
+  public readonly frames: MockFrame[] = [];
+
+  /**
+   * Underlying socket server
+   */
+  private server?: Server;
+
+  /**
+   * Sockets of connected clients
+   */
+  private sockets = new Set<Socket>();
+
+  /**
+   * Sockets which completed the handshake
+   */
+  private readySockets = new Set<Socket>();
+
+  /**
+   * Payload sent with the READY event
+   */
+  private readyPayload: ReadyResponse;
+
+  /**
+   * Client ID accepted during the handshake
+   */
+  private clientId?: string;
+
+  /**
+   * Scripted replies keyed by command
+   */
+  private handlers = new Map<string, MockCommandHandler>();
+
+  /**
+   * Encoder for frames sent to clients
+   */
+  private encoder = new FrameEncoder();
+
+  /**
+   * Initializes a new mock server. Call `listen()` to start accepting connections.
+   */
+  constructor(options?: MockDiscordServerOptions) {
+    super();
+
+    this.path =
+      options?.path ??
+      (process.platform === 'win32'
+        ? `\\\\?\\pipe\\discord-ipc-mock-${generateNonce()}`
+        : join(tmpdir(), `discord-ipc-mock-${generateNonce()}`));
+    this.readyPayload = {
+      ...DEFAULT_READY,
+      ...options?.ready,
+      config: { ...DEFAULT_READY.config, ...options?.ready?.config },
+      user: { ...DEFAULT_READY.user, ...options?.ready?.user },
+    };
+    this.clientId = options?.clientId;
+
+    for (const [cmd, handler] of Object.entries(options?.handlers ?? {})) {
+      this.handlers.set(cmd, handler as MockCommandHandler);
+    }
+  }
+
+  /**
+   * Path data pointing at this server, to be passed to `ClientOptions.pathList`.
+   */
+  public get pathData(): PathData {
+    return {
+      platform: ['aix', 'android', 'darwin', 'freebsd', 'haiku', 'linux', 'openbsd', 'sunos', 'win32', 'cygwin', 'netbsd'],
+      format: () => this.path,
+    };
+  }
+
+  /**
+   * Number of currently connected clients.
+   */
+  public get connectionCount() {
+    return this.sockets.size;
+  }
+
+  /**
+   * Starts listening on the socket path.
+   * @returns Promise that resolves once the server is listening
+   */
+  listen(): Promise<void> {
+    if (process.platform !== 'win32' && existsSync(this.path)) {
+      unlinkSync(this.path);
+    }
+
+    this.server = createServer((socket) => this.handleConnection(socket));
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.path, () => {
+        this.server!.removeListener('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops the server and disconnects every client.
+   * @returns Promise that resolves once the server is closed
+   */
+  close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+    this.readySockets.clear();
+
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * Scripts the reply for a command, replacing any previous one.
+   * @param cmd Command to reply to
+   * @param handler Static response data or a function computing it
+   * @returns The MockDiscordServer instance for chaining
+   */
+  respond(cmd: Command, handler: MockCommandHandler): this {
+    this.handlers.set(cmd, handler);
+    return this;
+  }
+
+  /**
+   * Scripts an ERROR reply for a command.
+   * @param cmd Command to fail
+   * @param code Discord error code
+   * @param message Error message
+   * @returns The MockDiscordServer instance for chaining
+   */
+  fail(cmd: Command, code: number, message: string): this {
+    return this.respond(cmd, () => {
+      throw { code, message } satisfies MockErrorReply;
+    });
+  }
+
+  /**
+   * Pushes an event to every client which completed the handshake.
+   * @param evt Event name
+   * @param data Event payload
+   */
+  dispatch(evt: Event | string, data: unknown = {}) {
+    for (const socket of this.readySockets) {
+      this.write(socket, OpCode.FRAME, { cmd: Command.DISPATCH, evt, data, nonce: null });
+    }
+  }
+
+  /**
+   * Sends a CLOSE frame to every client and ends their sockets.
+   * @param code Close code sent to the client
+   * @param message Close reason
+   */
+  disconnect(code: number = CloseCodes.CLOSE_NORMAL, message = 'Closed by mock server') {
+    for (const socket of this.sockets) {
+      this.closeSocket(socket, code, message);
+    }
+  }
+
+  /**
+   * Waits for the next frame with the given command.
+   * @param cmd Command to wait for
+   * @returns Promise that resolves with the frame payload
+   */
+  waitForCommand(cmd: Command): Promise<any> {
+    return new Promise((resolve) => {
+      const handler = (frame: MockFrame) => {
+        if (frame.op === OpCode.FRAME && frame.payload.cmd === cmd) {
+          this.removeListener('frame', handler);
+          resolve(frame.payload);
+        }
+      };
+      this.on('frame', handler);
+    });
+  }
+
+  /**
+   * Sets up framing and bookkeeping for a newly connected client.
+   * @param socket Socket of the client
+   */
+  private handleConnection(socket: Socket) {
+    const decoder = new FrameDecoder();
+    this.sockets.add(socket);
+    this.emit('connection', socket);
+
+    decoder.on('frame', ({ op, payload }) => this.handleFrame(socket, op, payload));
+    decoder.on('protocolError', (error) => {
+      this.emit('protocolError', error);
+      if (error.fatal) this.closeSocket(socket, CloseCodes.CLOSE_UNSUPPORTED, error.message);
+    });
+
+    socket.on('data', (chunk: Buffer) => decoder.push(chunk));
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.readySockets.delete(socket);
+      this.emit('disconnection', socket);
+    });
+
+    socket.on('error', () => {
+      // Errors are followed by 'close', which handles cleanup
+    });
+  }
+
+  /**
+   * Handles a single decoded frame from a client.
+   * @param socket Socket of the client
+   * @param op OpCode of the frame
+   * @param payload Decoded payload
+   */
+  private handleFrame(socket: Socket, op: OpCode, payload: any) {
+    const frame: MockFrame = { op, payload };
+    this.frames.push(frame);
+    this.emit('frame', frame);
+
+    switch (op) {
+      case OpCode.HANDSHAKE:
+        if (this.clientId && payload.client_id !== this.clientId) {
+          this.closeSocket(socket, CloseCodes.INVALID_CLIENTID, 'Invalid Client ID');
+          return;
+        }
+        this.readySockets.add(socket);
+        this.write(socket, OpCode.FRAME, { cmd: Command.DISPATCH, evt: Event.READY, data: this.readyPayload, nonce: null });
+        return;
+      case OpCode.PING:
+        this.write(socket, OpCode.PONG, payload);
+        return;
+      case OpCode.CLOSE:
+        socket.end();
+        return;
+      case OpCode.FRAME:
+        void this.reply(socket, payload);
+        return;
+    }
+  }
+
+  /**
+   * Answers a command frame using the scripted handler, matching it by nonce.
+   * @param socket Socket of the client
+   * @param payload Command frame payload
+   */
+  private async reply(socket: Socket, payload: any) {
+    const { cmd, args, evt, nonce } = payload;
+    const handler = this.handlers.has(cmd) ? this.handlers.get(cmd) : this.defaultHandler(cmd);
+
+    try {
+      const data = typeof handler === 'function' ? await handler(args, payload) : handler;
+      this.write(socket, OpCode.FRAME, { cmd, data: data ?? null, evt: cmd === Command.SUBSCRIBE || cmd === Command.UNSUBSCRIBE ? evt : null, nonce });
+    } catch (err: any) {
+      const data: MockErrorReply = {
+        code: typeof err?.code === 'number' ? err.code : RPCErrorCode.UNKNOWN_ERROR,
+        message: err?.message ?? String(err),
+      };
+      this.write(socket, OpCode.FRAME, { cmd, data, evt: Event.ERROR, nonce });
+    }
+  }
+
+  /**
+   * Reply used for commands without a scripted handler.
+   * @param cmd Command being answered
+   * @returns Default handler for the command
+   */
+  private defaultHandler(cmd: string): MockCommandHandler {
+    switch (cmd) {
+      case Command.SET_ACTIVITY:
+        return (args) => args?.activity ?? null;
+      case Command.SUBSCRIBE:
+      case Command.UNSUBSCRIBE:
+        return (_args, frame) => ({ evt: frame.evt });
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Sends a CLOSE frame to a client and ends its socket.
+   * @param socket Socket of the client
+   * @param code Close code
+   * @param message Close reason
+   */
+  private closeSocket(socket: Socket, code: number, message: string) {
+    this.readySockets.delete(socket);
+    this.write(socket, OpCode.CLOSE, { code, message });
+    socket.end();
+  }
+
+  /**
+   * Encodes and writes a frame to a client.
+   * @param socket Socket of the client
+   * @param op OpCode of the frame
+   * @param payload Payload object to send
+   */
+  private write(socket: Socket, op: OpCode, payload: object) {
+    if (socket.destroyed || !socket.writable) return;
+    socket.write(this.encoder.encode(op, payload));
+  }
+}
@@ -0,0 +1,314 @@
+// Libraries
+import { createWriteStream, type WriteStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+// Internal
+import { NotConnectedError } from './errors';
+import { createLogger, redact } from './logger';
+// Types
+import { OpCode, type FrameDirection, type Logger, type LogLevel, type RecordedFrame, type Transport } from './types';
+
+/**
+ * Options for the TrafficRecorder constructor
+ */
+export type TrafficRecorderOptions = {
+  /**
+   * Destination for write errors, or false to log nothing
+   * @default ConsoleLogger
+   */
+  logger?: Logger | false;
+  /**
+   * Minimum level to log
+   * @default LogLevel.Warn
+   */
+  logLevel?: LogLevel;
+};
+
+/**
+ * Reads a recording written by a TrafficRecorder.
+ * @param path Path of the JSONL file
+ * @returns Recorded frames in order
+ */
+export const readRecording = async (path: string): Promise<RecordedFrame[]> => {
+  const content = await readFile(path, 'utf8');
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+};
+
+/**
+ * Checks whether a frame belongs to the heartbeat, whose timing differs between sessions.
+ * @param op OpCode of the frame
+ * @returns true for PING and PONG frames
+ */
+const isHeartbeat = (op: OpCode) => op === OpCode.PING || op === OpCode.PONG;
+
+/**
+ * Writes every frame passing through a transport to a JSONL file, with secrets redacted.
+ * If the file can't be written, the error is logged and recording stops without affecting the connection.
+ * @example
+ * const recorder = new TrafficRecorder('./session.jsonl');
+ * const client = new Client({ transport: new SocketConnection({ recorder }) });
+ * // ...
+ * await recorder.close();
+ */
+export class TrafficRecorder {
+  /**
+   * Stream of the JSONL file
+   */
+  private stream: WriteStream;
+
+  /**
+   * Logger for write errors
+   */
+  private logger: Logger;
+
+  /**
+   * Whether frames are still written, false once the stream failed
+   */
+  private isRecording = true;
+
+  /**
+   * Initializes a new recorder, replacing the file if it exists.
+   * @param path Path of the JSONL file
+   * @param options Logger for write errors
+   */
+  constructor(path: string, options?: TrafficRecorderOptions) {
+    this.logger = createLogger(options?.logger, options?.logLevel);
+    this.stream = createWriteStream(path, { flags: 'w', mode: 0o600 });
+    // Without a listener a failing stream would throw from the socket handlers recording frames
+    this.stream.on('error', (error) => {
+      this.isRecording = false;
+      this.logger.error(`Stopped recording to ${path}, the file could not be written.`, { error });
+    });
+  }
+
+  /**
+   * Whether frames are still written to the file.
+   */
+  public get isActive() {
+    return this.isRecording;
+  }
+
+  /**
+   * Appends a frame to the recording.
+   * @param direction 'in' for frames received from Discord, 'out' for frames sent to it
+   * @param op OpCode of the frame
+   * @param payload Payload of the frame
+   */
+  record(direction: FrameDirection, op: OpCode, payload: any) {
+    if (!this.isRecording) return;
+
+    const frame: RecordedFrame = { direction, op, time: Date.now(), payload: redact(payload) };
+    this.stream.write(`${JSON.stringify(frame)}\n`);
+  }
+
+  /**
+   * Flushes and closes the file.
+   * @returns Promise that resolves once everything was written
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Transport replaying a recording to a Client as if it came from Discord.
+ * Received frames are delivered in order, pausing at each recorded outgoing frame until the client sends
+ * the same command. Nonces of the recording are mapped to the ones the client generates, and heartbeat
+ * frames are skipped since their timing differs between sessions.
+ * @example
+ * const transport = await TrafficReplayer.fromFile('./session.jsonl');
+ * const client = new Client({ transport });
+ * await client.login({ clientId: '1234' });
+ */
+export class TrafficReplayer implements Transport {
+  /**
+   * The replayer has no real connection to keep alive
+   */
+  public readonly keepsAlive = true;
+
+  /**
+   * Frames sent by the client which didn't match the recording
+   */
+  public readonly unexpected: { op: OpCode; payload: any }[] = [];
+
+  /**
+   * Recorded frames being replayed
+   */
+  private frames: RecordedFrame[];
+
+  /**
+   * Index of the next recorded frame
+   */
+  private cursor = 0;
+
+  /**
+   * Nonces of the recording mapped to the nonces the client sent
+   */
+  private nonces = new Map<string, string>();
+
+  /**
+   * Frames sent by the client which weren't matched against the recording yet
+   */
+  private sent: { op: OpCode; payload: any }[] = [];
+
+  /**
+   * Whether the client is connected
+   */
+  private isConnected = false;
+
+  /**
+   * Whether a replay step is scheduled
+   */
+  private isScheduled = false;
+
+  /**
+   * Callback for incoming data
+   */
+  private dataCallback?: (op: OpCode, data: any) => void;
+
+  /**
+   * Callback for when the connection is closed
+   */
+  private closeCallback?: () => void;
+
+  /**
+   * Initializes a new replayer.
+   * @param frames Recorded frames, see `readRecording`
+   */
+  constructor(frames: RecordedFrame[]) {
+    this.frames = frames;
+  }
+
+  /**
+   * Creates a replayer from a recording file.
+   * @param path Path of the JSONL file written by a TrafficRecorder
+   * @returns Promise that resolves with the replayer
+   */
+  static async fromFile(path: string): Promise<TrafficReplayer> {
+    return new TrafficReplayer(await readRecording(path));
+  }
+
+  /**
+   * Whether every recorded frame was replayed.
+   */
+  public get isFinished() {
+    return this.cursor >= this.frames.length;
+  }
+
+  /**
+   * Connects to the recording, continuing where a previous connection stopped.
+   */
+  async connect() {
+    this.isConnected = true;
+    this.schedule();
+  }
+
+  /**
+   * Matches a frame sent by the client against the recording.
+   * @param op OpCode of the frame
+   * @param payload Payload of the frame
+   * @throws NotConnectedError if the client isn't connected
+   */
+  async send(op: OpCode, payload: object) {
+    if (!this.isConnected) throw new NotConnectedError(op);
+    if (isHeartbeat(op)) return;
+
+    this.sent.push({ op, payload });
+    this.schedule();
+  }
+
+  /**
+   * Registers the callback for replayed frames.
+   * @param callback Function to call with each replayed payload
+   */
+  onData(callback: (op: OpCode, data: any) => void) {
+    this.dataCallback = callback;
+  }
+
+  /**
+   * Registers the callback for when the connection is closed.
+   * @param callback Function to call when the connection is closed
+   */
+  onClose(callback: () => void) {
+    this.closeCallback = callback;
+  }
+
+  /**
+   * Closes the connection to the recording.
+   */
+  destroy() {
+    this.close();
+  }
+
+  /**
+   * Runs a replay step on the next tick, like data arriving from a socket.
+   */
+  private schedule() {
+    if (this.isScheduled) return;
+    this.isScheduled = true;
+
+    setImmediate(() => {
+      this.isScheduled = false;
+      this.replay();
+    });
+  }
+
+  /**
+   * Delivers recorded frames until the next outgoing frame the client hasn't sent yet.
+   */
+  private replay() {
+    while (this.isConnected && !this.isFinished) {
+      const frame = this.frames[this.cursor];
+
+      if (isHeartbeat(frame.op)) {
+        this.cursor++;
+        continue;
+      }
+
+      if (frame.direction === 'in') {
+        this.cursor++;
+        this.dataCallback?.(frame.op, this.mapNonce(frame.payload));
+        // Discord closes the socket after a CLOSE frame
+        if (frame.op === OpCode.CLOSE) this.close();
+        continue;
+      }
+
+      const sent = this.sent.shift();
+      if (!sent) return;
+
+      if (sent.op !== frame.op || sent.payload?.cmd !== frame.payload?.cmd) {
+        this.unexpected.push(sent);
+        continue;
+      }
+
+      if (frame.payload?.nonce && sent.payload?.nonce) {
+        this.nonces.set(frame.payload.nonce, sent.payload.nonce);
+      }
+      this.cursor++;
+    }
+
+    // Nothing left in the recording to answer these
+    if (this.isFinished) this.unexpected.push(...this.sent.splice(0));
+  }
+
+  /**
+   * Replaces the recorded nonce of a payload with the one the client sent.
+   * @param payload Recorded payload
+   * @returns Payload carrying the client's nonce
+   */
+  private mapNonce(payload: any) {
+    const nonce = payload?.nonce && this.nonces.get(payload.nonce);
+    return nonce ? { ...payload, nonce } : payload;
+  }
+
+  /**
+   * Closes the connection and notifies the client on the next tick, like a socket would.
+   */
+  private close() {
+    if (!this.isConnected) return;
+    this.isConnected = false;
+    setImmediate(() => this.closeCallback?.());
+  }
+}
@@ -0,0 +1,301 @@
+// Libraries
+import { EventEmitter } from 'node:events';
+// Internal
+import { PresenceBuilder } from './builder';
+import type { Client } from './client';
+import { InvalidStateError } from './errors';
+// Types
+import {
+  ConnectionState,
+  type ActivityPayload,
+  type ActivitySource,
+  type PresenceRotatorEvents,
+  type RotationEntry,
+  type StateChangeEvent,
+} from './types';
+
+/**
+ * Shortest time an entry is shown. Discord accepts 5 activity updates per 20 seconds,
+ * so rotating faster would only have updates coalesced away by the client.
+ */
+export const MIN_ROTATION_DURATION = 4_000;
+
+/**
+ * Options for the PresenceRotator constructor
+ */
+export type PresenceRotatorOptions = {
+  /**
+   * How long to show entries without their own duration, in milliseconds
+   * @default 30000
+   */
+  duration?: number;
+  /**
+   * `timestamps.start` set on every entry so the elapsed timer doesn't reset between rotations.
+   * Defaults to the time `start()` is first called, false keeps the entries' own timestamps.
+   */
+  startTimestamp?: number | false;
+};
+
+/**
+ * Listener for a presence rotator event.
+ */
+export type PresenceRotatorEventListener<K extends keyof PresenceRotatorEvents> = (data: PresenceRotatorEvents[K]) => void;
+
+/**
+ * Typed event methods of the PresenceRotator, see `PresenceRotatorEvents` for all events and their payloads.
+ */
+export interface PresenceRotator {
+  on<K extends keyof PresenceRotatorEvents>(event: K, listener: PresenceRotatorEventListener<K>): this;
+  once<K extends keyof PresenceRotatorEvents>(event: K, listener: PresenceRotatorEventListener<K>): this;
+  off<K extends keyof PresenceRotatorEvents>(event: K, listener: PresenceRotatorEventListener<K>): this;
+  emit<K extends keyof PresenceRotatorEvents>(event: K, data: PresenceRotatorEvents[K]): boolean;
+}
+
+/**
+ * Cycles a client's activity through a list of entries on a schedule.
+ * Updates go through `Client.setActivity`, so they respect the activity rate limit and are
+ * queued while the client reconnects. Every entry shares the same `timestamps.start`.
+ * @example
+ * const rotator = new PresenceRotator(client, [
+ *   { activity: { details: 'Playing Tetris' } },
+ *   { activity: () => ({ details: `Viewers: ${viewers}` }), duration: 15_000 },
+ *   { activity: new PresenceBuilder().setDetails('Live now').addButton('Watch', 'https://example.com') },
+ * ]);
+ * rotator.start();
+ */
+export class PresenceRotator extends EventEmitter {
+  /**
+   * Client whose activity is rotated
+   */
+  private client: Client;
+
+  /**
+   * Entries shown in order
+   */
+  private entries: RotationEntry[];
+
+  /**
+   * How long to show entries without their own duration
+   */
+  private duration: number;
+
+  /**
+   * Start timestamp from the options, false to keep the entries' own timestamps
+   */
+  private startTimestamp?: number | false;
+
+  /**
+   * Start timestamp shared by every entry, set on the first `start()`
+   */
+  private startedAt?: number;
+
+  /**
+   * Index of the entry currently shown, -1 before the rotation starts
+   */
+  private cursor = -1;
+
+  /**
+   * Timer for showing the next entry
+   */
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Time the next entry is due
+   */
+  private dueAt = 0;
+
+  /**
+   * Time left for the current entry while paused
+   */
+  private remaining = 0;
+
+  /**
+   * Whether the rotation is running
+   */
+  private running = false;
+
+  /**
+   * Whether the rotation is paused
+   */
+  private paused = false;
+
+  /**
+   * Stops the rotation once the client is destroyed
+   */
+  private onStateChange = ({ to }: StateChangeEvent) => {
+    if (to === ConnectionState.Destroyed) this.stop();
+  };
+
+  /**
+   * Initializes a new presence rotator.
+   * @param client Client whose activity is rotated
+   * @param entries Entries to show in order, durations shorter than `MIN_ROTATION_DURATION` are raised to it
+   * @param options Default duration and start timestamp
+   * @throws Error if no entries are given
+   */
+  constructor(client: Client, entries: RotationEntry[], options?: PresenceRotatorOptions) {
+    super();
+    if (entries.length === 0) {
+      throw new Error('A PresenceRotator needs at least one entry.');
+    }
+
+    this.client = client;
+    this.entries = [...entries];
+    this.duration = options?.duration ?? 30_000;
+    this.startTimestamp = options?.startTimestamp;
+  }
+
+  /**
+   * Index of the entry currently shown, -1 if the rotation isn't running.
+   */
+  public get index() {
+    return this.cursor;
+  }
+
+  /**
+   * Whether the rotation is running, including while paused.
+   */
+  public get isRunning() {
+    return this.running;
+  }
+
+  /**
+   * Whether the rotation is paused.
+   */
+  public get isPaused() {
+    return this.paused;
+  }
+
+  /**
+   * Starts the rotation with the first entry. Does nothing if it is already running.
+   * @throws InvalidStateError if the client was destroyed
+   */
+  start() {
+    if (this.running) return;
+    if (this.client.state === ConnectionState.Destroyed) {
+      throw new InvalidStateError('start a presence rotation', this.client.state);
+    }
+
+    this.running = true;
+    this.paused = false;
+    if (this.startTimestamp !== false) {
+      this.startedAt ??= this.startTimestamp ?? Date.now();
+    }
+
+    this.client.on('stateChange', this.onStateChange);
+    this.show(0);
+  }
+
+  /**
+   * Stops the rotation, leaving the current activity in place. Use `Client.clearActivity` to remove it.
+   * Starting again begins with the first entry and keeps the start timestamp.
+   */
+  stop() {
+    if (!this.running) return;
+    this.clearTimer();
+    this.running = false;
+    this.paused = false;
+    this.cursor = -1;
+    this.client.off('stateChange', this.onStateChange);
+  }
+
+  /**
+   * Pauses the rotation on the current entry.
+   */
+  pause() {
+    if (!this.running || this.paused) return;
+    this.paused = true;
+    this.remaining = Math.max(this.dueAt - Date.now(), 0);
+    this.clearTimer();
+  }
+
+  /**
+   * Resumes a paused rotation, showing the current entry for the rest of its duration.
+   */
+  resume() {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.schedule(this.remaining);
+  }
+
+  /**
+   * Shows the next entry right away. A paused rotation stays paused on the new entry.
+   */
+  skip() {
+    if (!this.running) return;
+    this.show((this.cursor + 1) % this.entries.length);
+  }
+
+  /**
+   * Sends an entry to Discord and schedules the next one.
+   * @param index Index of the entry to show
+   */
+  private show(index: number) {
+    this.clearTimer();
+    this.cursor = index;
+
+    const entry = this.entries[index];
+    const duration = Math.max(entry.duration ?? this.duration, MIN_ROTATION_DURATION);
+    if (this.paused) {
+      this.remaining = duration;
+    } else {
+      this.schedule(duration);
+    }
+
+    let activity: ActivityPayload;
+    try {
+      activity = this.resolve(entry.activity);
+    } catch (err) {
+      this.fail(err as Error);
+      return;
+    }
+
+    this.client.setActivity(activity).catch((err) => this.fail(err));
+    this.emit('rotate', { index, activity });
+  }
+
+  /**
+   * Builds the activity of an entry and applies the shared start timestamp.
+   * @param source Activity, builder or factory of the entry
+   * @returns Activity payload to send
+   */
+  private resolve(source: ActivitySource): ActivityPayload {
+    const value = typeof source === 'function' ? source() : source;
+    const activity = value instanceof PresenceBuilder ? value.build() : value;
+
+    if (this.startedAt === undefined) return activity;
+    return { ...activity, timestamps: { ...activity.timestamps, start: this.startedAt } };
+  }
+
+  /**
+   * Schedules the next entry.
+   * @param delay Time until the next entry in milliseconds
+   */
+  private schedule(delay: number) {
+    this.dueAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.show((this.cursor + 1) % this.entries.length);
+    }, delay);
+  }
+
+  /**
+   * Clears the timer for the next entry.
+   */
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Reports a failed entry as 'error' if anyone listens, since nobody awaits the rotation.
+   * @param err Error to report
+   */
+  private fail(err: Error) {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+// Types
+import type { ActivityPayload, Party, PresenceTemplate, TemplateVariables, Timestamps } from './types';
+
+/**
+ * Matches a `{name}` placeholder
+ */
+const PLACEHOLDER = /\{([\w.-]+)\}/g;
+
+/**
+ * Matches a relative timestamp like `+3m` or `-1.5h`
+ */
+const RELATIVE_TIMESTAMP = /^([+-])(\d+(?:\.\d+)?)(ms|s|m|h|d)$/;
+
+/**
+ * Milliseconds per unit of a relative timestamp
+ */
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Fills the placeholders of a string.
+ * @param value String with `{placeholders}`
+ * @param variables Values for the placeholders
+ * @returns The filled string, or undefined if any variable is missing
+ */
+const interpolate = (value: string, variables: TemplateVariables): string | undefined => {
+  let isMissing = false;
+  const result = value.replace(PLACEHOLDER, (_match, name: string) => {
+    // Names like `constructor` must not resolve to properties inherited from Object.prototype
+    const variable = Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : undefined;
+    if (variable === undefined || variable === null) {
+      isMissing = true;
+      return '';
+    }
+    return String(variable);
+  });
+  return isMissing ? undefined : result;
+};
+
+/**
+ * Removes undefined fields from an object.
+ * @param object Object to compact
+ * @returns The object without undefined fields, or undefined if none are left
+ */
+const compact = <T extends object>(object: T): T | undefined => {
+  const entries = Object.entries(object).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+};
+
+/**
+ * Fills the placeholders of every string field of an object, omitting fields with missing variables.
+ * @param object Object with string fields
+ * @param variables Values for the placeholders
+ * @returns The filled object, or undefined if no field is left
+ */
+const interpolateFields = <T extends object>(object: T | undefined, variables: TemplateVariables): T | undefined => {
+  if (!object) return undefined;
+  return compact(
+    Object.fromEntries(
+      Object.entries(object).map(([key, value]) => [key, typeof value === 'string' ? interpolate(value, variables) : value]),
+    ) as T,
+  );
+};
+
+/**
+ * Resolves a timestamp expression of a template.
+ * @param value Unix timestamp in milliseconds, `'now'`, a relative offset like `'+3m'`, a numeric string or a date
+ * @param variables Values for the placeholders
+ * @param now Time relative expressions are based on
+ * @returns Unix timestamp in milliseconds, or undefined if a variable is missing
+ * @throws Error if the expression can't be parsed
+ */
+const resolveTimestamp = (value: number | string | undefined, variables: TemplateVariables, now: number): number | undefined => {
+  if (value === undefined || typeof value === 'number') return value;
+
+  const expression = interpolate(value, variables)?.trim();
+  if (expression === undefined) return undefined;
+  if (expression === 'now') return now;
+
+  const relative = RELATIVE_TIMESTAMP.exec(expression);
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    return now + (sign === '-' ? -1 : 1) * Math.round(Number(amount) * UNIT_MS[unit]);
+  }
+  if (/^\d+$/.test(expression)) return Number(expression);
+
+  const date = Date.parse(expression);
+  if (!Number.isNaN(date)) return date;
+
+  throw new Error(`Invalid timestamp expression "${expression}". Use "now", an offset like "+3m" or a date.`);
+};
+
+/**
+ * Resolves a party size of a template.
+ * @param value Number or string resolving to a number
+ * @param variables Values for the placeholders
+ * @returns The size, or undefined if a variable is missing
+ * @throws Error if the value isn't a number
+ */
+const resolveSize = (value: number | string, variables: TemplateVariables): number | undefined => {
+  if (typeof value === 'number') return value;
+
+  const expression = interpolate(value, variables);
+  if (expression === undefined) return undefined;
+
+  const size = Number(expression);
+  if (!expression.trim() || Number.isNaN(size)) {
+    throw new Error(`Invalid party size "${expression}".`);
+  }
+  return size;
+};
+
+/**
+ * Fills the placeholders of a template without applying any length limits.
+ * Fields using a missing variable are omitted, as are buttons with a missing label or URL.
+ * Use `renderPresence` or `PresenceBuilder.fromTemplate` to also apply the builder's limits.
+ * @param template Template to render
+ * @param variables Values for the placeholders
+ * @param now Time relative timestamps are based on
+ * @returns The rendered activity payload
+ * @throws Error if a timestamp or party size can't be parsed
+ */
+export const renderTemplate = (template: PresenceTemplate, variables: TemplateVariables = {}, now = Date.now()): ActivityPayload => {
+  const text = (value: string | undefined) => (value === undefined ? undefined : interpolate(value, variables));
+
+  let party: Party | undefined;
+  if (template.party) {
+    const [current, max] = template.party.size?.map((size) => resolveSize(size, variables)) ?? [];
+    party = compact({
+      id: text(template.party.id),
+      size: current !== undefined && max !== undefined ? ([current, max] as [number, number]) : undefined,
+    });
+  }
+
+  const buttons = template.buttons
+    ?.map((button) => ({ label: text(button.label), url: text(button.url) }))
+    .filter((button): button is { label: string; url: string } => button.label !== undefined && button.url !== undefined);
+
+  return (
+    compact<ActivityPayload>({
+      type: template.type,
+      details: text(template.details),
+      details_url: text(template.details_url),
+      state: text(template.state),
+      state_url: text(template.state_url),
+      timestamps: compact<Timestamps>({
+        start: resolveTimestamp(template.timestamps?.start, variables, now),
+        end: resolveTimestamp(template.timestamps?.end, variables, now),
+      }),
+      assets: interpolateFields(template.assets, variables),
+      party,
+      secrets: interpolateFields(template.secrets, variables),
+      instance: template.instance,
+      buttons: buttons?.length ? buttons : undefined,
+    }) ?? {}
+  );
+};
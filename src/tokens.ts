@@ -0,0 +1,87 @@
+// Libraries
+import { readFile, unlink, writeFile } from 'node:fs/promises';
+// Types
+import type { OAuthTokenResponse, StoredToken, TokenStore } from './types';
+
+/**
+ * Converts a token endpoint response into a token to persist.
+ * @param response Response from the OAuth2 token endpoint
+ * @returns Token with an absolute expiry time
+ */
+export const toStoredToken = (response: OAuthTokenResponse): StoredToken => ({
+  access_token: response.access_token,
+  token_type: response.token_type,
+  refresh_token: response.refresh_token,
+  scope: response.scope,
+  expires_at: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+});
+
+/**
+ * Token store keeping the token in memory for the lifetime of the process.
+ */
+export class MemoryTokenStore implements TokenStore {
+  /**
+   * Currently stored token
+   */
+  private token?: StoredToken;
+
+  /**
+   * Initializes a new in-memory token store.
+   * @param token Optional token to start with
+   */
+  constructor(token?: StoredToken) {
+    this.token = token;
+  }
+
+  async get() {
+    return this.token;
+  }
+
+  async set(token: StoredToken) {
+    this.token = token;
+  }
+
+  async clear() {
+    this.token = undefined;
+  }
+}
+
+/**
+ * Token store persisting the token as JSON in a file readable only by the current user.
+ */
+export class FileTokenStore implements TokenStore {
+  /**
+   * Path of the JSON file
+   */
+  private path: string;
+
+  /**
+   * Initializes a new file token store.
+   * @param path Path of the JSON file
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(): Promise<StoredToken | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (err: any) {
+      // A missing file simply means no token was stored yet
+      if (err.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async set(token: StoredToken) {
+    await writeFile(this.path, JSON.stringify(token), { mode: 0o600 });
+  }
+
+  async clear() {
+    try {
+      await unlink(this.path);
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+  }
+}
@@ -97,3 +97,56 @@ export enum RelationshipType {
   PENDING_OUTGOING = 4,
   IMPLICIT = 5,
 }
+
+/**
+ * Partial activity applied with `Client.patchActivity`.
+ * Nested objects are merged field by field, arrays (buttons, party size) are replaced.
+ */
+export type ActivityPatch = {
+  [K in keyof ActivityPayload]?: NonNullable<ActivityPayload[K]> extends unknown[]
+    ? ActivityPayload[K]
+    : NonNullable<ActivityPayload[K]> extends object
+      ? Partial<NonNullable<ActivityPayload[K]>>
+      : ActivityPayload[K];
+};
+
+/**
+ * Problem found in an activity payload by `validateActivity`
+ */
+export type ActivityIssue = {
+  /**
+   * Path of the offending field, eg. `party.size` or `buttons[1].url`
+   */
+  path: string;
+  /**
+   * Human-readable description of the problem
+   */
+  message: string;
+};
+
+/**
+ * Activity payload with `{placeholders}` in its string fields, rendered with `renderPresence`.
+ * Timestamps also accept `'now'`, relative offsets like `'+3m'` or `'-30s'`, and dates.
+ * Party sizes may be placeholders resolving to numbers.
+ * @example
+ * const template: PresenceTemplate = {
+ *   details: 'Listening to {title}',
+ *   state: 'by {artist}',
+ *   timestamps: { start: 'now', end: '+{duration}s' },
+ * };
+ */
+export type PresenceTemplate = Omit<ActivityPayload, 'timestamps' | 'party'> & {
+  timestamps?: {
+    start?: number | string;
+    end?: number | string;
+  };
+  party?: {
+    id?: string;
+    size?: [number | string, number | string];
+  };
+};
+
+/**
+ * Values for the placeholders of a PresenceTemplate. Fields using a missing (undefined or null) variable are omitted.
+ */
+export type TemplateVariables = Record<string, string | number | boolean | null | undefined>;
@@ -0,0 +1,63 @@
+/**
+ * Response from Discord's OAuth2 token endpoint
+ */
+export type OAuthTokenResponse = {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+};
+
+/**
+ * OAuth2 token as persisted by a TokenStore
+ */
+export type StoredToken = {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  scope: string;
+  /**
+   * Unix timestamp in milliseconds at which the access token expires
+   */
+  expires_at?: number;
+};
+
+/**
+ * Storage for the OAuth2 token used to re-authenticate after reconnecting
+ */
+export interface TokenStore {
+  /**
+   * Loads the stored token.
+   * @returns Promise that resolves with the token, or undefined if none is stored
+   */
+  get(): Promise<StoredToken | undefined>;
+  /**
+   * Saves a token, replacing any stored one.
+   * @param token Token to save
+   */
+  set(token: StoredToken): Promise<void>;
+  /**
+   * Removes the stored token.
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for persisting OAuth2 tokens and re-authenticating after each READY
+ */
+export type AuthOptions = {
+  /**
+   * Where tokens from `exchangeCode` and `refreshToken` are saved and loaded from
+   */
+  tokenStore: TokenStore;
+  /**
+   * Client secret of the application, required to refresh expired tokens
+   */
+  clientSecret?: string;
+  /**
+   * Refresh tokens this many milliseconds before they expire
+   * @default 60000
+   */
+  refreshMargin?: number;
+};
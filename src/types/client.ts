@@ -1,3 +1,8 @@
+import type { WebSocketConstructor } from '../websocket';
+import type { AuthOptions } from './auth';
+import type { Logger, LogLevel } from './logger';
+import type { Transport } from './transport';
+
 /**
  * Path data for the socket connection
  */
@@ -16,14 +21,178 @@ export interface PathData {
   format: (index: number) => string;
 }
 
+/**
+ * Reachable Discord IPC socket found by `listDiscordInstances()`
+ */
+export type DiscordInstance = {
+  /**
+   * Pipe index (0-9) the instance listens on
+   */
+  index: number;
+  /**
+   * Socket path or Windows pipe name, to be passed to `SocketConnectionOptions.path`
+   */
+  path: string;
+};
+
+/**
+ * Lifecycle states of the Client
+ */
+export enum ConnectionState {
+  /**
+   * Not logged in, or gave up reconnecting
+   */
+  Idle = 'idle',
+  /**
+   * Opening the transport to Discord
+   */
+  Connecting = 'connecting',
+  /**
+   * Connected and waiting for READY after the handshake
+   */
+  Handshaking = 'handshaking',
+  /**
+   * READY received, commands can be sent
+   */
+  Ready = 'ready',
+  /**
+   * READY received and the session is authenticated with an access token
+   */
+  Authenticated = 'authenticated',
+  /**
+   * Waiting for the next reconnection attempt
+   */
+  Reconnecting = 'reconnecting',
+  /**
+   * Destroyed for good, every operation fails
+   */
+  Destroyed = 'destroyed',
+}
+
+/**
+ * Heartbeat settings of the Client
+ */
+export type HeartbeatOptions = {
+  /**
+   * Milliseconds between PING frames
+   * @default 30000
+   */
+  interval?: number;
+  /**
+   * Number of PINGs in a row without a PONG after which the connection is considered dead and reconnected
+   * @default 3
+   */
+  maxMissed?: number;
+};
+
+/**
+ * Reconnection policy used when the connection to Discord is lost
+ */
+export type ReconnectOptions = {
+  /**
+   * Delay before the first reconnection attempt in milliseconds
+   * @default 1000
+   */
+  initialDelay?: number;
+  /**
+   * Factor the delay is multiplied by after each failed attempt
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * Random variation applied to each delay, as a fraction of it (0.1 = ±10%)
+   * @default 0.1
+   */
+  jitter?: number;
+  /**
+   * Upper bound for the delay in milliseconds
+   * @default 60000
+   */
+  maxDelay?: number;
+  /**
+   * Attempts before giving up and emitting `reconnectFailed`
+   * @default Infinity
+   */
+  maxAttempts?: number;
+};
+
 /**
  * Options for the Client constructor
  */
 export type ClientOptions = {
   /**
-   * Custom path list for the socket connection
+   * Transport used to reach Discord: the IPC socket (`'ipc'`), the local RPC WebSocket (`'websocket'`)
+   * or a custom Transport instance
+   * @default 'ipc'
+   */
+  transport?: 'ipc' | 'websocket' | Transport;
+  /**
+   * Custom path list for the socket connection, only used by the IPC transport
    */
   pathList?: PathData[];
+  /**
+   * WebSocket implementation, only used by the WebSocket transport. Defaults to the global `WebSocket`.
+   */
+  WebSocket?: WebSocketConstructor;
+  /**
+   * Milliseconds to wait for a command response before rejecting it. 0 disables the timeout.
+   * @default 10000
+   */
+  requestTimeout?: number;
+  /**
+   * Reconnection policy, or false to never reconnect
+   */
+  reconnect?: ReconnectOptions | false;
+  /**
+   * Rate limit for activity updates. Updates beyond it are coalesced into the latest one
+   * and sent once the window allows, or false to send every update immediately.
+   * @default { limit: 5, interval: 20000 }
+   */
+  activityRateLimit?: { limit?: number; interval?: number } | false;
+  /**
+   * Token persistence and automatic re-authentication after each READY
+   */
+  auth?: AuthOptions;
+  /**
+   * Base URL of the Discord API used for OAuth2 token requests
+   * @default 'https://discord.com/api'
+   */
+  apiBaseUrl?: string;
+  /**
+   * Queue holding commands issued before the client is ready, flushed in order after READY
+   */
+  queue?: {
+    /**
+     * Maximum number of queued commands, further commands are rejected
+     * @default 100
+     */
+    maxSize?: number;
+    /**
+     * Milliseconds a command may wait in the queue before it is rejected. 0 disables the expiry.
+     * @default 30000
+     */
+    expiry?: number;
+  };
+  /**
+   * Heartbeat used to measure latency and detect dead connections, or false to disable it.
+   * Ignored by transports which keep themselves alive.
+   */
+  heartbeat?: HeartbeatOptions | false;
+  /**
+   * Destination for log messages, or false to log nothing. Secrets are redacted before logging.
+   * @default ConsoleLogger
+   */
+  logger?: Logger | false;
+  /**
+   * Minimum level to log. `LogLevel.Debug` traces every frame sent and received.
+   * @default LogLevel.Warn
+   */
+  logLevel?: LogLevel;
+  /**
+   * Reject activities which break Discord's rules with an ActivityValidationError before sending them
+   * @default false
+   */
+  strict?: boolean;
 };
 
 /**
@@ -39,6 +208,13 @@ export type ReadyResponse = {
   user: User;
 };
 
+/**
+ * Response from login, including the authentication when login ran the OAuth2 flow
+ */
+export type LoginResponse = ReadyResponse & {
+  auth?: AuthenticateResponse;
+};
+
 /**
  * User object structure
  */
@@ -137,3 +313,17 @@ export enum Scope {
   ApplicationIdentitiesWrite = 'application.identities.write',
   ApplicationCommandsPermissionsUpdate = 'application.commands.permissions.update',
 }
+
+/**
+ * Per-call options for `Client.request`
+ */
+export type RequestOptions = {
+  /**
+   * Milliseconds to wait for a response before rejecting, overriding `ClientOptions.requestTimeout`. 0 disables the timeout.
+   */
+  timeout?: number;
+  /**
+   * Signal to cancel the request
+   */
+  signal?: AbortSignal;
+};
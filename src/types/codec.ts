@@ -0,0 +1,35 @@
+import type { ProtocolError } from '../errors';
+import type { OpCode } from './opcodes';
+
+/**
+ * Options for the FrameEncoder and FrameDecoder constructors
+ */
+export type FrameCodecOptions = {
+  /**
+   * Maximum size of a frame body in bytes. Larger frames are rejected with a ProtocolError.
+   * @default 16777216 (16 MiB)
+   */
+  maxFrameSize?: number;
+};
+
+/**
+ * A single decoded IPC frame
+ */
+export type DecodedFrame = {
+  op: OpCode;
+  payload: any;
+};
+
+/**
+ * Events emitted by the FrameDecoder
+ */
+export interface FrameDecoderEvents {
+  /**
+   * Emitted for every complete and valid frame
+   */
+  frame: DecodedFrame;
+  /**
+   * Emitted instead of throwing when the stream contains an invalid frame
+   */
+  protocolError: ProtocolError;
+}
@@ -1,3 +1,8 @@
+import type { ActivityPayload, LobbyType } from './activities';
+import type { AuthenticateResponse, AuthorizeResponse, RequestOptions, User } from './client';
+import type { Event } from './events';
+import type { Channel, Entitlement, Guild, Lobby, Relationship, VoiceSettings } from './structures';
+
 /**
  * Commands sent to Discord IPC
  */
@@ -65,3 +70,127 @@ export enum Command {
   UPDATE_LOBBY_MEMBER = 'UPDATE_LOBBY_MEMBER',
   VALIDATE_APPLICATION = 'VALIDATE_APPLICATION',
 }
+
+/**
+ * Arguments and response of a command without a documented shape
+ */
+type UnknownCommand = {
+  args: object;
+  response: unknown;
+};
+
+/**
+ * Arguments of the SET_USER_VOICE_SETTINGS command, also returned as its response
+ */
+export type UserVoiceSettings = {
+  user_id: string;
+  pan?: { left: number; right: number };
+  volume?: number;
+  mute?: boolean;
+};
+
+/**
+ * Map of every command to its argument and response types
+ */
+export interface CommandMap {
+  [Command.ACCEPT_ACTIVITY_INVITE]: {
+    args: { type: number; user_id: string; session_id: string; channel_id: string; message_id: string };
+    response: null;
+  };
+  [Command.ACTIVITY_INVITE_USER]: {
+    args: { user_id: string; type: number; content?: string; pid: number | null };
+    response: null;
+  };
+  [Command.AUTHENTICATE]: { args: { access_token: string }; response: AuthenticateResponse };
+  [Command.AUTHORIZE]: {
+    args: { client_id: string; scopes: string[]; rpc_token?: string; username?: string; prompt?: 'consent' | 'none'; [key: string]: unknown };
+    response: AuthorizeResponse;
+  };
+  [Command.BRAINTREE_POPUP_BRIDGE_CALLBACK]: UnknownCommand;
+  [Command.BROWSER_HANDOFF]: UnknownCommand;
+  [Command.CAPTURE_SHORTCUT]: { args: { action: 'START' | 'STOP' }; response: null };
+  [Command.CLOSE_ACTIVITY_JOIN_REQUEST]: { args: { user_id: string }; response: null };
+  [Command.CONNECTIONS_CALLBACK]: UnknownCommand;
+  [Command.CONNECT_TO_LOBBY]: { args: { id: string; secret: string }; response: Lobby };
+  [Command.CONNECT_TO_LOBBY_VOICE]: { args: { id: string }; response: null };
+  [Command.CREATE_CHANNEL_INVITE]: { args: { channel_id: string }; response: { code: string } };
+  [Command.CREATE_LOBBY]: { args: { type: LobbyType; capacity?: number; metadata?: object }; response: Lobby };
+  [Command.DEEP_LINK]: UnknownCommand;
+  [Command.DELETE_LOBBY]: { args: { id: string }; response: null };
+  [Command.DISCONNECT_FROM_LOBBY]: { args: { id: string }; response: null };
+  [Command.DISCONNECT_FROM_LOBBY_VOICE]: { args: { id: string }; response: null };
+  [Command.DISPATCH]: UnknownCommand;
+  [Command.GET_APPLICATION_TICKET]: UnknownCommand;
+  [Command.GET_CHANNEL]: { args: { channel_id: string }; response: Channel };
+  [Command.GET_CHANNELS]: { args: { guild_id: string }; response: { channels: Pick<Channel, 'id' | 'name' | 'type'>[] } };
+  [Command.GET_ENTITLEMENTS]: { args: object; response: Entitlement[] };
+  [Command.GET_ENTITLEMENT_TICKET]: UnknownCommand;
+  [Command.GET_GUILD]: { args: { guild_id: string; timeout?: number }; response: Guild };
+  [Command.GET_GUILDS]: { args: object; response: { guilds: Pick<Guild, 'id' | 'name'>[] } };
+  [Command.GET_IMAGE]: {
+    args: { type: 'user'; id: string; format: 'png' | 'webp' | 'jpg'; size: number };
+    response: { data_url: string };
+  };
+  [Command.GET_NETWORKING_CONFIG]: UnknownCommand;
+  [Command.GET_RELATIONSHIPS]: { args: object; response: { relationships: Relationship[] } };
+  [Command.GET_SELECTED_VOICE_CHANNEL]: { args: object; response: Channel | null };
+  [Command.GET_SKUS]: { args: object; response: unknown[] };
+  [Command.GET_USER]: { args: { id: string }; response: User };
+  [Command.GET_USER_ACHIEVEMENTS]: UnknownCommand;
+  [Command.GET_VOICE_SETTINGS]: { args: object; response: VoiceSettings };
+  [Command.GIFT_CODE_BROWSER]: UnknownCommand;
+  [Command.GUILD_TEMPLATE_BROWSER]: UnknownCommand;
+  [Command.INVITE_BROWSER]: UnknownCommand;
+  [Command.NETWORKING_CREATE_TOKEN]: UnknownCommand;
+  [Command.NETWORKING_PEER_METRICS]: UnknownCommand;
+  [Command.NETWORKING_SYSTEM_METRICS]: UnknownCommand;
+  [Command.OPEN_OVERLAY_ACTIVITY_INVITE]: { args: { type: number; pid: number | null }; response: null };
+  [Command.OPEN_OVERLAY_GUILD_INVITE]: { args: { code: string; pid: number | null }; response: null };
+  [Command.OPEN_OVERLAY_VOICE_SETTINGS]: { args: { pid: number | null }; response: null };
+  [Command.OVERLAY]: UnknownCommand;
+  [Command.SEARCH_LOBBIES]: {
+    args: { filter?: object[]; sort?: object[]; limit?: number; distance?: number };
+    response: Lobby[];
+  };
+  [Command.SELECT_TEXT_CHANNEL]: { args: { channel_id: string | null; timeout?: number }; response: Channel | null };
+  [Command.SELECT_VOICE_CHANNEL]: {
+    args: { channel_id: string | null; timeout?: number; force?: boolean; navigate?: boolean };
+    response: Channel | null;
+  };
+  [Command.SEND_ACTIVITY_JOIN_INVITE]: { args: { user_id: string }; response: null };
+  [Command.SEND_TO_LOBBY]: { args: { id: string; data: unknown }; response: null };
+  [Command.SET_ACTIVITY]: { args: { pid: number | null; activity: ActivityPayload | null }; response: ActivityPayload | null };
+  [Command.SET_CERTIFIED_DEVICES]: { args: { devices: object[] }; response: null };
+  [Command.SET_OVERLAY_LOCKED]: { args: { locked: boolean; pid: number | null }; response: null };
+  [Command.SET_USER_ACHIEVEMENT]: UnknownCommand;
+  [Command.SET_USER_VOICE_SETTINGS]: { args: UserVoiceSettings; response: UserVoiceSettings };
+  [Command.SET_USER_VOICE_SETTINGS_2]: UnknownCommand;
+  [Command.SET_VOICE_SETTINGS]: { args: Partial<VoiceSettings>; response: VoiceSettings };
+  [Command.SET_VOICE_SETTINGS_2]: UnknownCommand;
+  [Command.START_PURCHASE]: UnknownCommand;
+  [Command.SUBSCRIBE]: { args: object; response: { evt: Event } };
+  [Command.UNSUBSCRIBE]: { args: object; response: { evt: Event } };
+  [Command.UPDATE_LOBBY]: {
+    args: { id: string; type?: LobbyType; owner_id?: string; capacity?: number; metadata?: object };
+    response: null;
+  };
+  [Command.UPDATE_LOBBY_MEMBER]: { args: { lobby_id: string; user_id: string; metadata?: object }; response: null };
+  [Command.VALIDATE_APPLICATION]: UnknownCommand;
+}
+
+/**
+ * Arguments accepted by a command
+ */
+export type CommandArgs<C extends Command> = CommandMap[C]['args'];
+
+/**
+ * Response data returned by a command
+ */
+export type CommandResponse<C extends Command> = CommandMap[C]['response'];
+
+/**
+ * Parameters of `Client.request` for a command. Arguments are optional only when every field is optional.
+ */
+export type CommandRequestParams<C extends Command> = {} extends CommandArgs<C>
+  ? [args?: CommandArgs<C>, evt?: Event, options?: RequestOptions]
+  : [args: CommandArgs<C>, evt?: Event, options?: RequestOptions];
@@ -1,7 +1,7 @@
 /**
- * Enum for error codes.
+ * Enum for RPC error codes.
  */
-export enum Error {
+export enum RPCErrorCode {
   CAPTURE_SHORTCUT_ALREADY_LISTENING = 5004,
   GET_GUILD_TIMED_OUT = 5002,
   INVALID_ACTIVITY_JOIN_REQUEST = 4012,
@@ -35,6 +35,12 @@ export enum Error {
   UNKNOWN_ERROR = 1000,
 }
 
+/**
+ * Enum for RPC error codes.
+ * @deprecated Use `RPCErrorCode`, this name shadows the global `Error`.
+ */
+export { RPCErrorCode as Error };
+
 /**
  * Enum for WebSocket close codes.
  */
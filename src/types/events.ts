@@ -1,3 +1,8 @@
+import type { ProtocolError, RPCError } from '../errors';
+import type { AuthenticateResponse, ConnectionState, ReadyResponse, User } from './client';
+import type { Command } from './commands';
+import type { Channel, Entitlement, Guild, Lobby, LobbyMember, Message, Relationship, ShortcutKeyCombo, VoiceSettings, VoiceState } from './structures';
+
 /**
  * Enum for subscribable events.
  */
@@ -41,3 +46,299 @@ export enum Event {
   READY = 'READY',
   ERROR = 'ERROR',
 }
+
+/**
+ * Payload of events carrying an activity secret (ACTIVITY_JOIN, ACTIVITY_SPECTATE, GAME_JOIN, GAME_SPECTATE)
+ */
+export type ActivitySecretEvent = {
+  secret: string;
+};
+
+/**
+ * Payload of ACTIVITY_JOIN_REQUEST
+ */
+export type ActivityJoinRequestEvent = {
+  user: User;
+};
+
+/**
+ * Payload of ACTIVITY_INVITE
+ */
+export type ActivityInviteEvent = {
+  type: number;
+  user: User;
+  activity: object;
+  channel_id: string;
+  message_id: string;
+};
+
+/**
+ * Payload of GUILD_STATUS
+ */
+export type GuildStatusEvent = {
+  guild: Guild;
+  online: number;
+};
+
+/**
+ * Payload of VOICE_CHANNEL_SELECT
+ */
+export type VoiceChannelSelectEvent = {
+  channel_id: string | null;
+  guild_id?: string | null;
+};
+
+/**
+ * Payload of VOICE_SETTINGS_UPDATE_2
+ */
+export type VoiceSettings2Event = {
+  input_mode: {
+    type: 'PUSH_TO_TALK' | 'VOICE_ACTIVITY';
+    shortcut: string;
+  };
+  local_mutes: string[];
+  local_volumes: Record<string, number>;
+  self_mute: boolean;
+  self_deaf: boolean;
+};
+
+/**
+ * Payload of VOICE_CONNECTION_STATUS
+ */
+export type VoiceConnectionStatusEvent = {
+  state: string;
+  hostname: string;
+  pings: { time: number; value: number }[];
+  average_ping: number;
+  last_ping: number;
+};
+
+/**
+ * Payload of SPEAKING_START and SPEAKING_STOP
+ */
+export type SpeakingEvent = {
+  user_id: string;
+  channel_id?: string;
+};
+
+/**
+ * Payload of NOTIFICATION_CREATE
+ */
+export type NotificationCreateEvent = {
+  channel_id: string;
+  message: Message;
+  icon_url: string;
+  title: string;
+  body: string;
+};
+
+/**
+ * Payload of MESSAGE_CREATE, MESSAGE_UPDATE and MESSAGE_DELETE
+ */
+export type ChannelMessageEvent = {
+  channel_id: string;
+  message: Message;
+};
+
+/**
+ * Payload of LOBBY_MEMBER_CONNECT, LOBBY_MEMBER_DISCONNECT and LOBBY_MEMBER_UPDATE
+ */
+export type LobbyMemberEvent = {
+  lobby_id: string;
+  member: LobbyMember;
+};
+
+/**
+ * Payload of LOBBY_MESSAGE
+ */
+export type LobbyMessageEvent = {
+  lobby_id: string;
+  sender_id: string;
+  data: unknown;
+};
+
+/**
+ * Payload of OVERLAY and OVERLAY_UPDATE
+ */
+export type OverlayEvent = {
+  enabled: boolean;
+  locked: boolean;
+};
+
+/**
+ * Payload of the client's `disconnected` event, present when Discord sent a CLOSE frame
+ */
+export type DisconnectEvent =
+  | {
+      code: number;
+      message: string;
+    }
+  | undefined;
+
+/**
+ * Payload of the client's `reconnecting` event
+ */
+export type ReconnectingEvent = {
+  /**
+   * Number of the upcoming attempt, starting at 1
+   */
+  attempt: number;
+  /**
+   * Milliseconds until the attempt is made
+   */
+  delay: number;
+  /**
+   * Error which caused the reconnection, if any
+   */
+  error?: globalThis.Error;
+};
+
+/**
+ * Payload of the client's `reconnectFailed` event
+ */
+export type ReconnectFailedEvent = {
+  /**
+   * Number of attempts made before giving up
+   */
+  attempts: number;
+  /**
+   * Last error encountered, eg. a ConnectionClosedError with a fatal close code
+   */
+  error?: globalThis.Error;
+};
+
+/**
+ * Payload of the client's `pong` event
+ */
+export type PongEvent = {
+  /**
+   * Nonce of the answered PING
+   */
+  nonce: string;
+  /**
+   * Round trip time in milliseconds
+   */
+  latency: number;
+};
+
+/**
+ * Payload of the client's `stateChange` event
+ */
+export type StateChangeEvent = {
+  from: ConnectionState;
+  to: ConnectionState;
+};
+
+/**
+ * Active subscription as exposed by `Client.subscriptions`
+ */
+export type Subscription = {
+  event: Event;
+  args: object;
+  /**
+   * Number of `subscribe` calls sharing this subscription
+   */
+  refCount: number;
+  /**
+   * Whether Discord currently has this subscription, false while it waits to be replayed
+   */
+  active: boolean;
+};
+
+/**
+ * A raw frame received from Discord
+ */
+export type RPCFrame = {
+  cmd: Command;
+  evt?: Event | null;
+  nonce?: string | null;
+  data?: any;
+};
+
+/**
+ * Raw frames emitted under their command name, eg. 'DISPATCH' for every subscribed event.
+ * OVERLAY is left out since its name is taken by the event of the same name.
+ */
+export type CommandFrameEvents = {
+  [K in `${Exclude<Command, Command.OVERLAY>}`]: RPCFrame;
+};
+
+/**
+ * Map of every event emitted by the Client to its payload type
+ */
+export interface ClientEvents extends CommandFrameEvents {
+  [Event.CURRENT_USER_UPDATE]: User;
+  [Event.GUILD_STATUS]: GuildStatusEvent;
+  [Event.GUILD_CREATE]: Pick<Guild, 'id' | 'name'>;
+  [Event.CHANNEL_CREATE]: Pick<Channel, 'id' | 'name' | 'type'>;
+  [Event.RELATIONSHIP_UPDATE]: Relationship;
+  [Event.VOICE_CHANNEL_SELECT]: VoiceChannelSelectEvent;
+  [Event.VOICE_STATE_CREATE]: VoiceState;
+  [Event.VOICE_STATE_DELETE]: VoiceState;
+  [Event.VOICE_STATE_UPDATE]: VoiceState;
+  [Event.VOICE_SETTINGS_UPDATE]: VoiceSettings;
+  [Event.VOICE_SETTINGS_UPDATE_2]: VoiceSettings2Event;
+  [Event.VOICE_CONNECTION_STATUS]: VoiceConnectionStatusEvent;
+  [Event.SPEAKING_START]: SpeakingEvent;
+  [Event.SPEAKING_STOP]: SpeakingEvent;
+  [Event.GAME_JOIN]: ActivitySecretEvent;
+  [Event.GAME_SPECTATE]: ActivitySecretEvent;
+  [Event.ACTIVITY_JOIN]: ActivitySecretEvent;
+  [Event.ACTIVITY_JOIN_REQUEST]: ActivityJoinRequestEvent;
+  [Event.ACTIVITY_SPECTATE]: ActivitySecretEvent;
+  [Event.ACTIVITY_INVITE]: ActivityInviteEvent;
+  [Event.NOTIFICATION_CREATE]: NotificationCreateEvent;
+  [Event.MESSAGE_CREATE]: ChannelMessageEvent;
+  [Event.MESSAGE_UPDATE]: ChannelMessageEvent;
+  [Event.MESSAGE_DELETE]: ChannelMessageEvent;
+  [Event.LOBBY_DELETE]: Pick<Lobby, 'id'>;
+  [Event.LOBBY_UPDATE]: Lobby;
+  [Event.LOBBY_MEMBER_CONNECT]: LobbyMemberEvent;
+  [Event.LOBBY_MEMBER_DISCONNECT]: LobbyMemberEvent;
+  [Event.LOBBY_MEMBER_UPDATE]: LobbyMemberEvent;
+  [Event.LOBBY_MESSAGE]: LobbyMessageEvent;
+  [Event.CAPTURE_SHORTCUT_CHANGE]: { shortcut: ShortcutKeyCombo[] };
+  [Event.OVERLAY]: OverlayEvent;
+  [Event.OVERLAY_UPDATE]: OverlayEvent;
+  [Event.ENTITLEMENT_CREATE]: { entitlement: Entitlement };
+  [Event.ENTITLEMENT_DELETE]: { entitlement: Entitlement };
+  [Event.USER_ACHIEVEMENT_UPDATE]: { user_achievement: object };
+  [Event.READY]: ReadyResponse;
+  [Event.ERROR]: RPCError;
+  /**
+   * Emitted when the connection to Discord is lost
+   */
+  disconnected: DisconnectEvent;
+  /**
+   * Emitted when Discord sends a PING frame, after it was answered with a PONG
+   */
+  ping: unknown;
+  /**
+   * Emitted when Discord answers one of our PING frames
+   */
+  pong: PongEvent;
+  /**
+   * Emitted when the transport received a frame which breaks the protocol. The frame is skipped.
+   */
+  protocolError: ProtocolError;
+  /**
+   * Emitted on every lifecycle state transition
+   */
+  stateChange: StateChangeEvent;
+  /**
+   * Emitted when the client re-authenticated with a stored token after READY
+   */
+  authenticated: AuthenticateResponse;
+  /**
+   * Emitted before each reconnection attempt
+   */
+  reconnecting: ReconnectingEvent;
+  /**
+   * Emitted when the client stops trying to reconnect
+   */
+  reconnectFailed: ReconnectFailedEvent;
+  /**
+   * Emitted on client-level errors
+   */
+  error: globalThis.Error;
+}
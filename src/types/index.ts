@@ -1,6 +1,13 @@
 export * from './activities';
+export * from './auth';
 export * from './client';
+export * from './codec';
 export * from './commands';
 export * from './errors';
 export * from './events';
+export * from './logger';
 export * from './opcodes';
+export * from './recording';
+export * from './rotator';
+export * from './structures';
+export * from './transport';
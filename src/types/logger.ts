@@ -0,0 +1,32 @@
+/**
+ * Severity of a log message. Messages below the configured level are dropped.
+ */
+export enum LogLevel {
+  /**
+   * Traces every frame sent and received, with OpCode, command and nonce
+   */
+  Debug = 0,
+  Info = 1,
+  Warn = 2,
+  Error = 3,
+  /**
+   * Logs nothing
+   */
+  Silent = 4,
+}
+
+/**
+ * Additional structured data attached to a log message
+ */
+export type LogMeta = Record<string, unknown>;
+
+/**
+ * Destination for log messages of the library, eg. a wrapper around pino or winston.
+ * Metadata is redacted before it is passed on.
+ */
+export interface Logger {
+  debug(message: string, meta?: LogMeta): void;
+  info(message: string, meta?: LogMeta): void;
+  warn(message: string, meta?: LogMeta): void;
+  error(message: string, meta?: LogMeta): void;
+}
@@ -0,0 +1,22 @@
+import type { OpCode } from './opcodes';
+
+/**
+ * Direction of a recorded frame, 'in' for frames received from Discord
+ */
+export type FrameDirection = 'in' | 'out';
+
+/**
+ * A single frame of a recorded IPC session, stored as one line of JSONL
+ */
+export type RecordedFrame = {
+  direction: FrameDirection;
+  op: OpCode;
+  /**
+   * Unix timestamp in milliseconds
+   */
+  time: number;
+  /**
+   * Payload with secrets redacted
+   */
+  payload: any;
+};
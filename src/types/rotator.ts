@@ -0,0 +1,50 @@
+import type { PresenceBuilder } from '../builder';
+import type { ActivityPayload } from './activities';
+
+/**
+ * Activity shown by a PresenceRotator. Builders and factories are evaluated each time the entry is shown,
+ * so they can reflect live data like viewer counts.
+ */
+export type ActivitySource = ActivityPayload | PresenceBuilder | (() => ActivityPayload | PresenceBuilder);
+
+/**
+ * A single entry of a PresenceRotator
+ */
+export type RotationEntry = {
+  /**
+   * Activity to show
+   */
+  activity: ActivitySource;
+  /**
+   * How long to show the entry in milliseconds, defaults to the rotator's duration
+   */
+  duration?: number;
+};
+
+/**
+ * Payload of the rotator's `rotate` event
+ */
+export type RotateEvent = {
+  /**
+   * Index of the entry now shown
+   */
+  index: number;
+  /**
+   * Activity sent to Discord
+   */
+  activity: ActivityPayload;
+};
+
+/**
+ * Events emitted by the PresenceRotator
+ */
+export interface PresenceRotatorEvents {
+  /**
+   * Emitted whenever an entry is shown
+   */
+  rotate: RotateEvent;
+  /**
+   * Emitted when an entry can't be built or Discord rejects it, the rotation continues with the next entry
+   */
+  error: Error;
+}
@@ -0,0 +1,176 @@
+import type { LobbyType, RelationshipType } from './activities';
+import type { User } from './client';
+
+/**
+ * Partial guild object returned by RPC commands and events
+ */
+export type Guild = {
+  id: string;
+  name: string;
+  icon_url?: string | null;
+  members?: GuildMember[];
+  vanity_url_code?: string | null;
+};
+
+/**
+ * Member of a guild
+ */
+export type GuildMember = {
+  user: User;
+  nick?: string | null;
+  roles?: string[];
+};
+
+/**
+ * Partial channel object returned by RPC commands and events
+ */
+export type Channel = {
+  id: string;
+  name: string;
+  type: number;
+  guild_id?: string | null;
+  topic?: string;
+  bitrate?: number;
+  user_limit?: number;
+  position?: number;
+  voice_states?: VoiceState[];
+  messages?: Message[];
+};
+
+/**
+ * Message object sent with message and notification events
+ */
+export type Message = {
+  id: string;
+  channel_id?: string;
+  author?: User;
+  content: string;
+  content_parsed?: unknown[];
+  nick?: string;
+  author_color?: string;
+  timestamp: string;
+  edited_timestamp?: string | null;
+  tts?: boolean;
+  mentions?: User[];
+  mention_everyone?: boolean;
+  mention_roles?: string[];
+  embeds?: unknown[];
+  attachments?: unknown[];
+  pinned?: boolean;
+  type?: number;
+};
+
+/**
+ * Voice state of a user in a voice channel
+ */
+export type VoiceState = {
+  voice_state: {
+    mute: boolean;
+    deaf: boolean;
+    self_mute: boolean;
+    self_deaf: boolean;
+    suppress: boolean;
+  };
+  user: User;
+  nick: string;
+  volume: number;
+  mute: boolean;
+  pan: {
+    left: number;
+    right: number;
+  };
+};
+
+/**
+ * Audio device available for voice input or output
+ */
+export type VoiceDevice = {
+  id: string;
+  name: string;
+};
+
+/**
+ * Voice settings of the current user
+ */
+export type VoiceSettings = {
+  input: {
+    device_id: string;
+    volume: number;
+    available_devices: VoiceDevice[];
+  };
+  output: {
+    device_id: string;
+    volume: number;
+    available_devices: VoiceDevice[];
+  };
+  mode: {
+    type: 'PUSH_TO_TALK' | 'VOICE_ACTIVITY';
+    auto_threshold: boolean;
+    threshold: number;
+    shortcut: ShortcutKeyCombo[];
+    delay: number;
+  };
+  automatic_gain_control: boolean;
+  echo_cancellation: boolean;
+  noise_suppression: boolean;
+  qos: boolean;
+  silence_warning: boolean;
+  deaf: boolean;
+  mute: boolean;
+};
+
+/**
+ * Key of a keyboard shortcut
+ */
+export type ShortcutKeyCombo = {
+  type: number;
+  code: number;
+  name: string;
+};
+
+/**
+ * Relationship between the current user and another user
+ */
+export type Relationship = {
+  type: RelationshipType;
+  user: User;
+  presence?: {
+    status: string;
+    activity?: object | null;
+  };
+};
+
+/**
+ * Member of a lobby
+ */
+export type LobbyMember = {
+  user: User;
+  metadata: Record<string, string>;
+};
+
+/**
+ * Lobby object returned by lobby commands and events
+ */
+export type Lobby = {
+  id: string;
+  application_id: string;
+  type: LobbyType;
+  owner_id: string;
+  secret: string;
+  capacity: number;
+  locked: boolean;
+  metadata: Record<string, string>;
+  members?: LobbyMember[];
+};
+
+/**
+ * Entitlement owned by the current user
+ */
+export type Entitlement = {
+  id: string;
+  sku_id: string;
+  application_id: string;
+  user_id: string;
+  type: number;
+  gift_code_flags?: number;
+};
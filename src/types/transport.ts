@@ -0,0 +1,45 @@
+import type { ProtocolError } from '../errors';
+import type { OpCode } from './opcodes';
+
+/**
+ * Transport carrying RPC frames between the Client and Discord
+ */
+export interface Transport {
+  /**
+   * Whether the transport keeps the connection alive itself, in which case the Client sends no PING frames
+   */
+  readonly keepsAlive?: boolean;
+  /**
+   * Connects to Discord.
+   * @param clientId Client ID of the application, for transports which send it while connecting
+   * @returns Promise that resolves when connected
+   */
+  connect(clientId: string): Promise<void>;
+  /**
+   * Sends a payload to Discord.
+   * @param op OpCode of the payload
+   * @param payload Payload object to send
+   * @returns Promise that resolves once the frame was handed to the operating system
+   * @throws NotConnectedError if no connection is open
+   */
+  send(op: OpCode, payload: object): Promise<void>;
+  /**
+   * Registers the callback for incoming payloads.
+   * @param callback Function to call with each decoded payload
+   */
+  onData(callback: (op: OpCode, data: any) => void): void;
+  /**
+   * Registers the callback for when the connection is closed.
+   * @param callback Function to call when the connection is closed
+   */
+  onClose(callback: () => void): void;
+  /**
+   * Registers the callback for invalid incoming frames, for transports which can detect them.
+   * @param callback Function to call with each protocol error
+   */
+  onProtocolError?(callback: (error: ProtocolError) => void): void;
+  /**
+   * Closes the connection to Discord.
+   */
+  destroy(): void;
+}
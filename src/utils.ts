@@ -11,3 +11,156 @@ export const generateNonce = (): string => {
     return v.toString(16);
   });
 };
+
+/**
+ * Computes the delay before a reconnection attempt using exponential backoff with jitter.
+ * @param attempt Attempt number, starting at 1
+ * @param options Backoff settings
+ * @returns Delay in milliseconds
+ */
+export const computeBackoff = (
+  attempt: number,
+  { initialDelay, multiplier, jitter, maxDelay }: { initialDelay: number; multiplier: number; jitter: number; maxDelay: number },
+): number => {
+  const base = Math.min(maxDelay, initialDelay * multiplier ** (attempt - 1));
+  const variation = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(Math.min(maxDelay, base + variation)));
+};
+
+/**
+ * Checks whether a value is a plain object (not an array or null).
+ * @param value Value to check
+ * @returns boolean indicating whether the value is a plain object
+ */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Compares two JSON-like values structurally. Keys set to undefined count as missing,
+ * matching how the values are serialized when sent to Discord.
+ * @param a First value
+ * @param b Second value
+ * @returns boolean indicating whether both values are deep-equal
+ */
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isDeepEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Copies a JSON-like value, so nested objects and arrays are never shared with the original.
+ * Used instead of `structuredClone`, which needs Node.js 17.
+ * @param value Value to copy
+ * @returns A deep copy of the value
+ */
+export const deepClone = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map((item) => deepClone(item)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, deepClone(item)])) as T;
+  }
+  return value;
+};
+
+/**
+ * Recursively merges a patch into an object without mutating either.
+ * Nested objects are merged, arrays are replaced and keys set to undefined are removed.
+ * @param target Object to merge into
+ * @param patch Partial object to apply
+ * @returns A new merged object
+ */
+export const deepMerge = <T extends object>(target: T, patch: object): T => {
+  const result = { ...target } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = deepMerge(result[key] as object, value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result as T;
+};
+
+/**
+ * Serializes a JSON-like value with object keys sorted, so equal values always produce the same string.
+ * @param value Value to serialize
+ * @returns Stable JSON string
+ */
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, val) =>
+    isPlainObject(val)
+      ? Object.fromEntries(
+          Object.keys(val)
+            .sort()
+            .map((key) => [key, val[key]]),
+        )
+      : val,
+  );
+
+/**
+ * Counts the characters of a string the way Discord does, by Unicode code point rather than UTF-16 unit.
+ * An emoji like 🎮 counts as 1 instead of 2.
+ * @param value String to measure
+ * @returns Number of code points
+ */
+export const codePointLength = (value: string): number => {
+  let length = 0;
+  for (const _ of value) length++;
+  return length;
+};
+
+/**
+ * Splits a string into user-perceived characters, so emoji and combining sequences stay whole.
+ * Falls back to code points where `Intl.Segmenter` is unavailable.
+ * @param value String to split
+ * @returns Grapheme clusters in order
+ */
+const splitGraphemes = (value: string): string[] => {
+  if (typeof Intl?.Segmenter !== 'function') return [...value];
+  return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(value), ({ segment }) => segment);
+};
+
+/**
+ * Shortens a string to at most `max` code points without splitting a grapheme cluster, appending an ellipsis.
+ * @param value String to shorten
+ * @param max Maximum length in code points, counted like Discord counts
+ * @param ellipsis Appended when the string was shortened, dropped if it doesn't fit itself
+ * @returns The string itself if it fits, otherwise the shortened string
+ * @example
+ * truncateText('Never Gonna Give You Up', 10); // 'Never Gon…'
+ */
+export const truncateText = (value: string, max: number, ellipsis = '…'): string => {
+  if (codePointLength(value) <= max) return value;
+
+  const suffix = codePointLength(ellipsis) < max ? ellipsis : '';
+  const budget = max - codePointLength(suffix);
+  let result = '';
+  let length = 0;
+
+  for (const grapheme of splitGraphemes(value)) {
+    const size = codePointLength(grapheme);
+    if (length + size > budget) break;
+    result += grapheme;
+    length += size;
+  }
+
+  return result + suffix;
+};
@@ -0,0 +1,119 @@
+// Internal
+import { codePointLength } from './utils';
+// Types
+import { ActivityType, type ActivityIssue, type ActivityPayload } from './types';
+
+/**
+ * Activity types Discord accepts through SET_ACTIVITY
+ */
+const SETTABLE_ACTIVITY_TYPES: number[] = [ActivityType.Playing, ActivityType.Listening, ActivityType.Watching, ActivityType.Competing];
+
+/**
+ * Checks whether a value is an absolute https URL.
+ * @param value Value to check
+ * @returns true for https URLs
+ */
+const isHttpsUrl = (value: string) => {
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks an activity payload against Discord's rules for SET_ACTIVITY.
+ * Lengths are counted in Unicode code points, like Discord counts them.
+ * @param activity Activity payload to check
+ * @returns Every problem found, empty if the payload is valid
+ * @example
+ * const issues = validateActivity({ details: 'x', party: { size: [5, 4] } });
+ * // [{ path: 'details', message: 'Must be at least 2 characters.' }, { path: 'party.size', ... }]
+ */
+export const validateActivity = (activity: ActivityPayload): ActivityIssue[] => {
+  const issues: ActivityIssue[] = [];
+  const issue = (path: string, message: string) => issues.push({ path, message });
+
+  const checkText = (path: string, value: string | undefined, min: number, max: number) => {
+    if (value === undefined) return;
+    if (typeof value !== 'string') {
+      issue(path, 'Must be a string.');
+      return;
+    }
+
+    const length = codePointLength(value);
+    if (length < min) issue(path, `Must be at least ${min} characters.`);
+    if (length > max) issue(path, `Must be ${max} characters or fewer.`);
+  };
+  const checkUrl = (path: string, value: string | undefined, max: number) => {
+    if (value === undefined) return;
+    if (typeof value !== 'string' || !isHttpsUrl(value)) {
+      issue(path, 'Must be an https URL.');
+    } else if (codePointLength(value) > max) {
+      issue(path, `Must be ${max} characters or fewer.`);
+    }
+  };
+
+  if (activity.type !== undefined && !SETTABLE_ACTIVITY_TYPES.includes(activity.type)) {
+    issue('type', 'Must be Playing (0), Listening (2), Watching (3) or Competing (5) for SET_ACTIVITY.');
+  }
+
+  checkText('details', activity.details, 2, 128);
+  checkUrl('details_url', activity.details_url, 256);
+  checkText('state', activity.state, 2, 128);
+  checkUrl('state_url', activity.state_url, 256);
+
+  const { start, end } = activity.timestamps ?? {};
+  for (const [key, value] of Object.entries({ start, end })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      issue(`timestamps.${key}`, 'Must be a non-negative integer Unix timestamp.');
+    }
+  }
+  if (start !== undefined && end !== undefined && end < start) {
+    issue('timestamps.end', 'Must not be before the start timestamp.');
+  }
+
+  const assets = activity.assets ?? {};
+  for (const size of ['large', 'small'] as const) {
+    const image = assets[`${size}_image`];
+    // Images are either asset keys of the application or external URLs
+    if (image !== undefined) {
+      if (typeof image === 'string' && image.includes('://') && !isHttpsUrl(image)) {
+        issue(`assets.${size}_image`, 'Image URLs must use https.');
+      }
+      checkText(`assets.${size}_image`, image, 1, 256);
+    }
+    checkText(`assets.${size}_text`, assets[`${size}_text`], 2, 128);
+    checkUrl(`assets.${size}_url`, assets[`${size}_url`], 256);
+  }
+
+  if (activity.party) {
+    const { id, size } = activity.party;
+    if (id !== undefined) {
+      if (typeof id === 'string' && !id.trim()) issue('party.id', 'Must not be empty.');
+      checkText('party.id', id, 0, 128);
+    }
+    if (size !== undefined) {
+      const [current, max] = size;
+      if (!Number.isInteger(current) || !Number.isInteger(max) || current < 1 || max < 1) {
+        issue('party.size', 'Current and max size must be positive integers.');
+      } else if (current > max) {
+        issue('party.size', `Current size (${current}) must not exceed the max size (${max}).`);
+      }
+    }
+  }
+
+  for (const key of ['join', 'spectate', 'match'] as const) {
+    checkText(`secrets.${key}`, activity.secrets?.[key], 1, 128);
+  }
+
+  if (activity.buttons) {
+    if (activity.buttons.length > 2) issue('buttons', 'A maximum of 2 buttons are allowed.');
+    activity.buttons.forEach((button, index) => {
+      checkText(`buttons[${index}].label`, button.label, 1, 32);
+      checkUrl(`buttons[${index}].url`, button.url, 512);
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,221 @@
+// Internal
+import { NotConnectedError, ProtocolError, UnsupportedTransportError } from './errors';
+import { isPlainObject } from './utils';
+// Types
+import { OpCode, type Transport } from './types';
+
+/**
+ * Minimal WebSocket interface used by the transport, satisfied by the standard WebSocket class.
+ */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open' | 'message' | 'close' | 'error', listener: (event: any) => void): void;
+}
+
+/**
+ * Constructor of a WebSocket implementation
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * Options for the WebSocketTransport constructor
+ */
+export type WebSocketTransportOptions = {
+  /**
+   * Host the Discord client listens on
+   * @default '127.0.0.1'
+   */
+  host?: string;
+  /**
+   * Ports to try in order
+   * @default [6463, ..., 6472]
+   */
+  ports?: number[];
+  /**
+   * WebSocket implementation, defaults to the global `WebSocket`
+   */
+  WebSocket?: WebSocketConstructor;
+};
+
+/**
+ * Transport over Discord's local RPC WebSocket server.
+ * The handshake happens through the connection URL, so HANDSHAKE and PING frames are not sent.
+ */
+export class WebSocketTransport implements Transport {
+  /**
+   * The WebSocket keeps itself alive, Discord doesn't answer PING frames on it
+   */
+  public readonly keepsAlive = true;
+
+  /**
+   * Host the Discord client listens on
+   */
+  private host: string;
+
+  /**
+   * Ports to try in order
+   */
+  private ports: number[];
+
+  /**
+   * WebSocket implementation
+   */
+  private WebSocket: WebSocketConstructor;
+
+  /**
+   * Currently open WebSocket
+   */
+  private socket?: WebSocketLike;
+
+  /**
+   * Callback for incoming data
+   */
+  private dataCallback?: (op: OpCode, data: any) => void;
+
+  /**
+   * Callback for socket close event
+   */
+  private closeCallback?: () => void;
+
+  /**
+   * Callback for invalid incoming messages
+   */
+  private protocolErrorCallback?: (error: ProtocolError) => void;
+
+  /**
+   * Initializes a new WebSocket transport.
+   * @throws UnsupportedTransportError if no implementation is given and the runtime has no global `WebSocket` (eg. Node.js before 22)
+   */
+  constructor(options?: WebSocketTransportOptions) {
+    const WebSocket = options?.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!WebSocket) {
+      throw new UnsupportedTransportError('No WebSocket implementation available. Pass one with the `WebSocket` option, eg. from the `ws` package.');
+    }
+
+    this.host = options?.host ?? '127.0.0.1';
+    this.ports = options?.ports ?? Array.from({ length: 10 }, (_, i) => 6463 + i);
+    this.WebSocket = WebSocket;
+  }
+
+  /**
+   * Connects to the first port with a running Discord RPC server.
+   * @param clientId Client ID of the application
+   * @returns Promise that resolves when connected
+   */
+  async connect(clientId: string): Promise<void> {
+    if (!this.WebSocket) {
+      throw new Error('No WebSocket implementation available. Pass one with the `WebSocket` option.');
+    }
+
+    for (const port of this.ports) {
+      const url = `ws://${this.host}:${port}/?v=1&client_id=${encodeURIComponent(clientId)}&encoding=json`;
+
+      try {
+        this.socket = await this.open(url);
+        return;
+      } catch {
+        // Try the next port
+      }
+    }
+
+    throw new Error(`Could not find a running Discord instance on ports ${this.ports.join(', ')}.`);
+  }
+
+  /**
+   * Opens a WebSocket and wires it to the registered callbacks.
+   * @param url URL to connect to
+   * @returns Promise that resolves with the socket once it is open
+   */
+  private open(url: string): Promise<WebSocketLike> {
+    return new Promise((resolve, reject) => {
+      const socket = new this.WebSocket(url);
+      let isOpen = false;
+
+      socket.addEventListener('open', () => {
+        isOpen = true;
+        resolve(socket);
+      });
+
+      socket.addEventListener('error', (event) => {
+        if (!isOpen) reject(event?.error ?? new Error(`Could not connect to ${url}`));
+      });
+
+      socket.addEventListener('message', (event) => {
+        let payload: any;
+        try {
+          payload = JSON.parse(String(event.data));
+        } catch (err) {
+          // Skip messages which aren't valid JSON
+          this.protocolErrorCallback?.(new ProtocolError('invalid_json', 'Received a message with an invalid JSON body.', OpCode.FRAME, err as Error));
+          return;
+        }
+        if (!isPlainObject(payload)) {
+          this.protocolErrorCallback?.(new ProtocolError('invalid_payload', 'Received a message whose body is not a JSON object.', OpCode.FRAME));
+          return;
+        }
+        this.dataCallback?.(OpCode.FRAME, payload);
+      });
+
+      socket.addEventListener('close', (event) => {
+        if (!isOpen) {
+          reject(new Error(`Could not connect to ${url}`));
+          return;
+        }
+        if (this.socket !== socket) return;
+
+        // Application close codes (eg. CloseCodes.INVALID_CLIENTID) carry a reason from Discord
+        if (event?.code >= 4000) {
+          this.dataCallback?.(OpCode.CLOSE, { code: event.code, message: event.reason });
+        }
+        this.socket = undefined;
+        this.closeCallback?.();
+      });
+    });
+  }
+
+  /**
+   * Closes the WebSocket connection to Discord.
+   */
+  destroy() {
+    this.socket?.close();
+  }
+
+  /**
+   * Sends a payload to Discord over the WebSocket.
+   * @param op OpCode of the payload
+   * @param payload Payload object to send
+   * @returns Promise that resolves once the message was queued by the WebSocket
+   * @throws NotConnectedError if no WebSocket is open
+   */
+  async send(op: OpCode, payload: object) {
+    // The handshake is part of the connection URL and the WebSocket keeps itself alive
+    if (op !== OpCode.FRAME) return;
+    if (!this.socket) throw new NotConnectedError(op);
+    this.socket.send(JSON.stringify(payload));
+  }
+
+  /**
+   * Registers a callback for incoming data.
+   * @param callback Function to call with each decoded payload
+   */
+  onData(callback: (op: OpCode, data: any) => void) {
+    this.dataCallback = callback;
+  }
+
+  /**
+   * Registers a callback for when the WebSocket connection is closed.
+   * @param callback Function to call when the socket is closed
+   */
+  onClose(callback: () => void) {
+    this.closeCallback = callback;
+  }
+
+  /**
+   * Registers a callback for invalid incoming messages.
+   * @param callback Function to call with each protocol error
+   */
+  onProtocolError(callback: (error: ProtocolError) => void) {
+    this.protocolErrorCallback = callback;
+  }
+}
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { once } from 'node:events';
+import { statSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Client, Command, FileTokenStore, MemoryTokenStore, MockDiscordServer, OpCode, RPCErrorCode, type ClientOptions, type StoredToken } from '../src';
+
+let server: MockDiscordServer;
+let client: Client;
+let api: ReturnType<typeof Bun.serve> | undefined;
+let tokenRequests: Record<string, string>[];
+
+/**
+ * Starts a mock server rejecting AUTHENTICATE only for the `expired` token, a stand-in token endpoint
+ * handing out `access-2`, and creates a client pointing at both.
+ */
+const setup = async (options?: ClientOptions) => {
+  tokenRequests = [];
+  api = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      tokenRequests.push(Object.fromEntries(new URLSearchParams(await req.text())));
+      return Response.json({ access_token: 'access-2', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh-2', scope: 'rpc' });
+    },
+  });
+
+  server = new MockDiscordServer();
+  server.respond(Command.AUTHENTICATE, ({ access_token }) => {
+    if (access_token === 'expired') throw { code: RPCErrorCode.INVALID_TOKEN, message: 'Invalid token' };
+    return { access_token, scopes: ['rpc'], user: { username: 'tester' } };
+  });
+  await server.listen();
+  client = new Client({ pathList: [server.pathData], apiBaseUrl: `http://localhost:${api.port}`, logger: false, ...options });
+};
+
+/**
+ * Access tokens sent with AUTHENTICATE commands, in order.
+ */
+const authenticatedTokens = () =>
+  server.frames.filter((frame) => frame.op === OpCode.FRAME && frame.payload.cmd === Command.AUTHENTICATE).map((frame) => frame.payload.args.access_token);
+
+/**
+ * Creates a stored token valid for an hour.
+ */
+const token = (overrides?: Partial<StoredToken>): StoredToken => ({
+  access_token: 'access-1',
+  token_type: 'Bearer',
+  refresh_token: 'refresh-1',
+  scope: 'rpc',
+  expires_at: Date.now() + 3_600_000,
+  ...overrides,
+});
+
+afterEach(async () => {
+  await client?.destroy();
+  await server?.close();
+  api?.stop(true);
+  api = undefined;
+});
+
+describe('re-authentication', () => {
+  test('authenticates with the stored token after READY', async () => {
+    await setup({ auth: { tokenStore: new MemoryTokenStore(token()) } });
+    const authenticated = once(client, 'authenticated');
+
+    await client.login({ clientId: '123' });
+
+    expect((await authenticated)[0].user.username).toBe('tester');
+    expect(authenticatedTokens()).toEqual(['access-1']);
+    expect(tokenRequests).toEqual([]);
+  });
+
+  test('refreshes an expired token first', async () => {
+    const tokenStore = new MemoryTokenStore(token({ expires_at: Date.now() - 1 }));
+    await setup({ auth: { tokenStore, clientSecret: 'secret' } });
+    const authenticated = once(client, 'authenticated');
+
+    await client.login({ clientId: '123' });
+    await authenticated;
+
+    expect(tokenRequests).toEqual([{ client_id: '123', client_secret: 'secret', grant_type: 'refresh_token', refresh_token: 'refresh-1' }]);
+    expect(authenticatedTokens()).toEqual(['access-2']);
+    expect(await tokenStore.get()).toMatchObject({ access_token: 'access-2', refresh_token: 'refresh-2' });
+  });
+
+  test('refreshes a token rejected by Discord', async () => {
+    await setup({ auth: { tokenStore: new MemoryTokenStore(token({ access_token: 'expired' })), clientSecret: 'secret' } });
+    const authenticated = once(client, 'authenticated');
+
+    await client.login({ clientId: '123' });
+    await authenticated;
+
+    expect(authenticatedTokens()).toEqual(['expired', 'access-2']);
+    expect(tokenRequests).toHaveLength(1);
+  });
+
+  test('authenticates again after reconnecting', async () => {
+    await setup({ auth: { tokenStore: new MemoryTokenStore(token()) }, reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+
+    const reauthenticated = once(client, 'authenticated');
+    server.disconnect();
+    await reauthenticated;
+
+    expect(authenticatedTokens()).toEqual(['access-1', 'access-1']);
+  });
+
+  test('emits errors when anyone listens', async () => {
+    await setup({ auth: { tokenStore: new MemoryTokenStore(token({ access_token: 'expired' })) } });
+    const error = once(client, 'error');
+
+    await client.login({ clientId: '123' });
+
+    expect((await error)[0]).toMatchObject({ code: RPCErrorCode.INVALID_TOKEN });
+  });
+});
+
+describe('OAuth login', () => {
+  test('authenticates with an access token', async () => {
+    await setup();
+
+    const response = await client.login({ clientId: '123', accessToken: 'access-1' });
+
+    expect(response.user.username).toBe('mock');
+    expect(response.auth?.user.username).toBe('tester');
+    expect(authenticatedTokens()).toEqual(['access-1']);
+  });
+
+  test('runs the authorization flow for the given scopes', async () => {
+    const tokenStore = new MemoryTokenStore();
+    await setup({ auth: { tokenStore } });
+    server.respond(Command.AUTHORIZE, { code: 'code-1' });
+
+    const response = await client.login({ clientId: '123', clientSecret: 'secret', scopes: ['rpc'], redirectUri: 'http://localhost:3000' });
+
+    expect(server.frames.find((frame) => frame.payload.cmd === Command.AUTHORIZE)?.payload.args).toEqual({ client_id: '123', scopes: ['rpc'] });
+    expect(tokenRequests).toEqual([
+      { client_id: '123', client_secret: 'secret', grant_type: 'authorization_code', redirect_uri: 'http://localhost:3000', code: 'code-1' },
+    ]);
+    expect(response.auth?.access_token).toBe('access-2');
+    expect(await tokenStore.get()).toMatchObject({ access_token: 'access-2' });
+  });
+
+  test('uses the stored token instead of authorizing again', async () => {
+    await setup({ auth: { tokenStore: new MemoryTokenStore(token()) } });
+
+    const response = await client.login({ clientId: '123', clientSecret: 'secret', scopes: ['rpc'] });
+
+    expect(response.auth?.access_token).toBe('access-1');
+    expect(server.frames.some((frame) => frame.payload.cmd === Command.AUTHORIZE)).toBe(false);
+  });
+
+  test('requires a client secret to exchange the code', async () => {
+    await setup();
+
+    await expect(client.login({ clientId: '123', scopes: ['rpc'] })).rejects.toThrow('A clientSecret is required');
+  });
+});
+
+describe('FileTokenStore', () => {
+  test('persists the token in a file only the owner can read', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'discord-rpc-'));
+    const path = join(dir, 'token.json');
+    const store = new FileTokenStore(path);
+
+    try {
+      expect(await store.get()).toBeUndefined();
+
+      await store.set(token());
+      expect(await new FileTokenStore(path).get()).toMatchObject({ access_token: 'access-1' });
+      if (process.platform !== 'win32') expect(statSync(path).mode & 0o777).toBe(0o600);
+
+      await store.clear();
+      expect(await store.get()).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
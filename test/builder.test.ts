@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+
+import { PresenceBuilder, renderPresence } from '../src';
+
+describe('PresenceBuilder', () => {
+  test('build returns a copy the builder does not share', () => {
+    const builder = new PresenceBuilder().setDetails('Hello').setParty('party', 1, 4);
+
+    const activity = builder.build();
+    activity.party!.size![0] = 3;
+
+    expect(builder.build()).toEqual({ details: 'Hello', party: { id: 'party', size: [1, 4] } });
+  });
+
+  test('from and clone copy the payload', () => {
+    const activity = { details: 'Saved', buttons: [{ label: 'Open', url: 'https://example.com' }] };
+
+    const builder = PresenceBuilder.from(activity);
+    const copy = builder.clone().setState('Edited');
+    activity.buttons[0].label = 'Changed';
+
+    expect(builder.toJSON()).toEqual({ details: 'Saved', buttons: [{ label: 'Open', url: 'https://example.com' }] });
+    expect(JSON.stringify(copy)).toBe(JSON.stringify(copy.build()));
+    expect(copy.build().state).toBe('Edited');
+    expect(builder.build().state).toBeUndefined();
+  });
+
+  test('setters return new builders in immutable mode', () => {
+    const base = new PresenceBuilder({ immutable: true }).setDetails('Base');
+
+    const edited = base.setState('Edited');
+
+    expect(base.build()).toEqual({ details: 'Base' });
+    expect(edited.build()).toEqual({ details: 'Base', state: 'Edited' });
+  });
+
+  test('truncates texts instead of throwing', () => {
+    expect(() => new PresenceBuilder().setDetails('x'.repeat(200))).toThrow();
+
+    const activity = new PresenceBuilder({ overflow: 'truncate' })
+      .setDetails('x'.repeat(200))
+      .setLargeImage('cover', '🎵'.repeat(200))
+      .addButton('y'.repeat(40), 'https://example.com')
+      .build();
+
+    expect(activity.details).toBe(`${'x'.repeat(127)}…`);
+    expect(activity.assets?.large_text).toBe(`${'🎵'.repeat(127)}…`);
+    expect(activity.buttons?.[0].label).toBe(`${'y'.repeat(31)}…`);
+  });
+
+  test('uses the configured ellipsis', () => {
+    const { state } = new PresenceBuilder({ overflow: 'truncate', ellipsis: '...' }).setState('z'.repeat(200)).build();
+
+    expect(state).toBe(`${'z'.repeat(125)}...`);
+  });
+
+  test('renders templates and omits fields with missing variables', () => {
+    const activity = renderPresence(
+      { details: 'Playing {map}', state: 'With {friend}', timestamps: { start: '1000', end: '+{duration}s' } },
+      { map: 'Dust II', duration: 90 },
+    );
+
+    expect(activity).toEqual({ details: 'Playing Dust II', timestamps: { start: 1000, end: expect.any(Number) } });
+  });
+
+  test('applies the length limits to rendered templates', () => {
+    const template = { details: 'Now playing {title}' };
+    const title = 'x'.repeat(200);
+
+    expect(() => PresenceBuilder.fromTemplate(template, { title })).toThrow('Details must be 128 characters or fewer.');
+    expect(PresenceBuilder.fromTemplate(template, { title }, { overflow: 'truncate' }).build().details).toHaveLength(128);
+  });
+});
@@ -0,0 +1,528 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { once } from 'node:events';
+
+import {
+  Client,
+  CloseCodes,
+  Command,
+  ConnectionClosedError,
+  ConnectionState,
+  Event,
+  InvalidStateError,
+  MockDiscordServer,
+  OpCode,
+  RequestCancelledError,
+  RPCError,
+  RPCErrorCode,
+  type ClientOptions,
+} from '../src';
+
+let server: MockDiscordServer;
+let client: Client;
+
+/**
+ * Starts a mock server and creates a client pointing at it.
+ */
+const setup = async (options?: ClientOptions) => {
+  server = new MockDiscordServer({ ready: { user: { username: 'tester' } } });
+  await server.listen();
+  client = new Client({ pathList: [server.pathData], logger: false, ...options });
+};
+
+/**
+ * Handshakes received by the mock server, one per connection.
+ */
+const handshakes = () => server.frames.filter((frame) => frame.op === OpCode.HANDSHAKE);
+
+/**
+ * Frames of a command received by the mock server.
+ */
+const commandFrames = (cmd: Command) => server.frames.filter((frame) => frame.op === OpCode.FRAME && frame.payload.cmd === cmd);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(async () => {
+  await client?.destroy();
+  await server?.close();
+});
+
+describe('events', () => {
+  test('emits subscribed events under their event name', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+    await client.subscribe(Event.ACTIVITY_JOIN);
+
+    const join = once(client, Event.ACTIVITY_JOIN);
+    server.dispatch(Event.ACTIVITY_JOIN, { secret: 'join-secret' });
+
+    expect((await join)[0]).toEqual({ secret: 'join-secret' });
+  });
+
+  test('emits raw frames under their command name', async () => {
+    await setup();
+    const dispatched: string[] = [];
+    client.on('DISPATCH', (frame) => dispatched.push(frame.evt!));
+
+    await client.login({ clientId: '123' });
+    const response = once(client, Command.SET_ACTIVITY);
+    client.setActivity({ details: 'Testing' });
+
+    expect(dispatched).toEqual([Event.READY]);
+    expect((await response)[0].data).toEqual({ details: 'Testing' });
+  });
+
+  test('settles requests by nonce', async () => {
+    await setup();
+    server.respond(Command.GET_GUILD, (args) => ({ id: args.guild_id, name: 'Test Guild' }));
+    server.fail(Command.GET_CHANNEL, 4000, 'Invalid channel');
+    await client.login({ clientId: '123' });
+
+    const [guild, channel] = await Promise.allSettled([
+      client.request(Command.GET_GUILD, { guild_id: '42' }),
+      client.request(Command.GET_CHANNEL, { channel_id: '1' }),
+    ]);
+
+    expect(guild).toEqual({ status: 'fulfilled', value: { id: '42', name: 'Test Guild' } });
+    expect(channel.status).toBe('rejected');
+    expect((channel as PromiseRejectedResult).reason.message).toBe('Invalid channel');
+  });
+});
+
+describe('request cancellation', () => {
+  test('rejects a request without a response after the timeout', async () => {
+    await setup({ requestTimeout: 20 });
+    server.respond(Command.GET_GUILD, () => new Promise(() => {}));
+    await client.login({ clientId: '123' });
+
+    const error = await client.request(Command.GET_GUILD, { guild_id: '42' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(RequestCancelledError);
+    expect(error).toMatchObject({ reason: 'timeout', cmd: Command.GET_GUILD, message: 'GET_GUILD request timed out after 20ms.' });
+  });
+
+  test('lets a request override the timeout', async () => {
+    await setup({ requestTimeout: 20 });
+    server.respond(Command.GET_GUILD, (args) => new Promise((resolve) => setTimeout(() => resolve({ id: args.guild_id }), 40)));
+    await client.login({ clientId: '123' });
+
+    expect(await client.request(Command.GET_GUILD, { guild_id: '42' }, undefined, { timeout: 0 })).toMatchObject({ id: '42' });
+  });
+
+  test('rejects a request when its signal aborts', async () => {
+    await setup();
+    server.respond(Command.GET_GUILD, () => new Promise(() => {}));
+    await client.login({ clientId: '123' });
+
+    const controller = new AbortController();
+    const request = client.request(Command.GET_GUILD, { guild_id: '42' }, undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ reason: 'aborted' });
+    await expect(client.request(Command.GET_GUILD, { guild_id: '42' }, undefined, { signal: controller.signal })).rejects.toMatchObject({
+      reason: 'aborted',
+    });
+  });
+
+  test('rejects pending requests when the connection closes', async () => {
+    await setup();
+    server.respond(Command.GET_GUILD, () => new Promise(() => {}));
+    await client.login({ clientId: '123' });
+
+    const request = client.request(Command.GET_GUILD, { guild_id: '42' });
+    server.disconnect();
+
+    await expect(request).rejects.toMatchObject({ reason: 'disconnected' });
+  });
+
+  test('rejects pending requests when the client is destroyed', async () => {
+    await setup();
+    server.respond(Command.GET_GUILD, () => new Promise(() => {}));
+    await client.login({ clientId: '123' });
+
+    const request = client.request(Command.GET_GUILD, { guild_id: '42' });
+    await client.destroy();
+
+    await expect(request).rejects.toMatchObject({ reason: 'destroyed' });
+  });
+});
+
+describe('errors', () => {
+  test('rejects failed commands with an RPCError carrying the Discord code', async () => {
+    await setup();
+    server.fail(Command.GET_GUILD, RPCErrorCode.INVALID_GUILD, 'Invalid guild');
+    await client.login({ clientId: '123' });
+    const emitted = once(client, Event.ERROR);
+
+    const error = await client.request(Command.GET_GUILD, { guild_id: '42' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(RPCError);
+    expect(error).toMatchObject({ code: RPCErrorCode.INVALID_GUILD, message: 'Invalid guild', cmd: Command.GET_GUILD });
+    expect(error.nonce).toBe(error.payload.nonce);
+    expect((await emitted)[0]).toBe(error);
+  });
+
+  test('rejects login with the close code sent by Discord', async () => {
+    server = new MockDiscordServer({ clientId: '123' });
+    await server.listen();
+    client = new Client({ pathList: [server.pathData], logger: false });
+
+    const error = await client.login({ clientId: '456' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ConnectionClosedError);
+    expect(error).toMatchObject({ code: CloseCodes.INVALID_CLIENTID, message: 'Invalid Client ID' });
+  });
+
+  test('keeps the close reason as the cause of cancelled requests', async () => {
+    await setup();
+    server.respond(Command.GET_GUILD, () => new Promise(() => {}));
+    await client.login({ clientId: '123' });
+
+    const request = client.request(Command.GET_GUILD, { guild_id: '42' }).catch((err) => err);
+    server.disconnect(CloseCodes.CLOSE_UNSUPPORTED, 'Unsupported');
+    const error = await request;
+
+    expect(error).toBeInstanceOf(RequestCancelledError);
+    expect(error.cause).toBeInstanceOf(ConnectionClosedError);
+    expect(error.cause).toMatchObject({ code: CloseCodes.CLOSE_UNSUPPORTED, message: 'Unsupported' });
+  });
+});
+
+describe('reconnection', () => {
+  test('reconnects with backoff after the connection is lost', async () => {
+    await setup({ reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+
+    const reconnecting = once(client, 'reconnecting');
+    const ready = once(client, Event.READY);
+    server.disconnect(CloseCodes.CLOSE_ABNORMAL, 'Restarting');
+
+    expect((await reconnecting)[0]).toMatchObject({ attempt: 1, delay: 10, error: { code: CloseCodes.CLOSE_ABNORMAL } });
+    await ready;
+    expect(handshakes()).toHaveLength(2);
+    expect(client.isConnected).toBe(true);
+  });
+
+  test('gives up after the maximum number of attempts', async () => {
+    await setup({ reconnect: { initialDelay: 5, jitter: 0, maxAttempts: 2 } });
+    await client.login({ clientId: '123' });
+    const delays: number[] = [];
+    client.on('reconnecting', ({ delay }) => delays.push(delay));
+
+    const failed = once(client, 'reconnectFailed');
+    await server.close();
+
+    expect((await failed)[0].attempts).toBe(2);
+    expect(delays).toEqual([5, 10]);
+  });
+
+  test('stops on fatal close codes', async () => {
+    await setup({ reconnect: { initialDelay: 5, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    let attempts = 0;
+    client.on('reconnecting', () => attempts++);
+
+    const failed = once(client, 'reconnectFailed');
+    server.disconnect(CloseCodes.INVALID_CLIENTID, 'Invalid Client ID');
+
+    expect((await failed)[0]).toMatchObject({ attempts: 0, error: { code: CloseCodes.INVALID_CLIENTID } });
+    expect(attempts).toBe(0);
+  });
+
+  test('does not reconnect when disabled', async () => {
+    await setup({ reconnect: false });
+    await client.login({ clientId: '123' });
+
+    const failed = once(client, 'reconnectFailed');
+    server.disconnect();
+
+    expect((await failed)[0].attempts).toBe(0);
+    expect(handshakes()).toHaveLength(1);
+  });
+});
+
+describe('activity rate limit', () => {
+  test('coalesces updates beyond the limit into the latest one', async () => {
+    await setup({ activityRateLimit: { limit: 1, interval: 100 } });
+    await client.login({ clientId: '123' });
+
+    const results = await Promise.all([
+      client.setActivity({ details: 'First' }),
+      client.setActivity({ details: 'Second' }),
+      client.setActivity({ details: 'Third' }),
+    ]);
+
+    expect(results).toEqual([{ details: 'First' }, { details: 'Third' }, { details: 'Third' }]);
+    expect(commandFrames(Command.SET_ACTIVITY).map((frame) => frame.payload.args.activity.details)).toEqual(['First', 'Third']);
+  });
+
+  test('resolves coalesced updates with null on destroy', async () => {
+    await setup({ activityRateLimit: { limit: 1, interval: 10_000 } });
+    await client.login({ clientId: '123' });
+
+    const first = client.setActivity({ details: 'First' });
+    const coalesced = client.setActivity({ details: 'Second' });
+    await first;
+    await client.destroy();
+
+    expect(await coalesced).toBeNull();
+    await sleep(10);
+    expect(commandFrames(Command.SET_ACTIVITY).map((frame) => frame.payload.args.activity)).toEqual([{ details: 'First' }, null]);
+  });
+});
+
+describe('activity updates', () => {
+  /**
+   * Activities sent to the mock server, in order.
+   */
+  const sentActivities = () => commandFrames(Command.SET_ACTIVITY).map((frame) => frame.payload.args.activity);
+
+  test('patches the last activity', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+
+    await client.setActivity({ details: 'Playing', state: 'In menu', assets: { large_image: 'logo', large_text: 'Logo' } });
+    await client.patchActivity({ state: 'In a match', assets: { large_text: undefined }, party: { size: [2, 4] } });
+
+    expect(sentActivities()[1]).toEqual({ details: 'Playing', state: 'In a match', assets: { large_image: 'logo' }, party: { size: [2, 4] } });
+  });
+
+  test('skips updates that leave the activity unchanged', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+
+    await client.setActivity({ details: 'Playing' });
+    const response = await client.setActivity({ details: 'Playing' });
+    await client.patchActivity({ details: 'Playing' });
+
+    expect(response).toEqual({ details: 'Playing' });
+    expect(sentActivities()).toEqual([{ details: 'Playing' }]);
+  });
+
+  test('shares the response of an identical update in flight', async () => {
+    await setup({ activityRateLimit: false });
+    server.respond(Command.SET_ACTIVITY, ({ activity }) => new Promise((resolve) => setTimeout(() => resolve(activity), 20)));
+    await client.login({ clientId: '123' });
+
+    const results = await Promise.all([client.setActivity({ details: 'Playing' }), client.setActivity({ details: 'Playing' })]);
+
+    expect(results).toEqual([{ details: 'Playing' }, { details: 'Playing' }]);
+    expect(sentActivities()).toEqual([{ details: 'Playing' }]);
+  });
+
+  test('sends an activity again when another one is in flight', async () => {
+    await setup({ activityRateLimit: false });
+    server.respond(Command.SET_ACTIVITY, ({ activity }) => new Promise((resolve) => setTimeout(() => resolve(activity), 20)));
+    await client.login({ clientId: '123' });
+
+    await client.setActivity({ details: 'A' });
+    await Promise.all([client.setActivity({ details: 'B' }), client.setActivity({ details: 'A' })]);
+
+    expect(sentActivities()).toEqual([{ details: 'A' }, { details: 'B' }, { details: 'A' }]);
+  });
+
+  test('sends an activity again after the previous update failed', async () => {
+    await setup({ activityRateLimit: false });
+    server.fail(Command.SET_ACTIVITY, RPCErrorCode.INVALID_PAYLOAD, 'Invalid payload');
+    await client.login({ clientId: '123' });
+
+    await expect(client.setActivity({ details: 'Playing' })).rejects.toThrow('Invalid payload');
+    server.respond(Command.SET_ACTIVITY, ({ activity }) => activity);
+    await client.setActivity({ details: 'Playing' });
+
+    expect(sentActivities()).toEqual([{ details: 'Playing' }, { details: 'Playing' }]);
+  });
+
+  test('sends the activity again after reconnecting', async () => {
+    await setup({ reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    await client.setActivity({ details: 'Playing' });
+
+    const restored = once(client, Command.SET_ACTIVITY);
+    server.disconnect();
+    await restored;
+
+    expect(sentActivities()).toEqual([{ details: 'Playing' }, { details: 'Playing' }]);
+  });
+});
+
+describe('command queue', () => {
+  test('sends commands issued before READY once connected', async () => {
+    await setup();
+    const activity = client.setActivity({ details: 'Queued' });
+    const guilds = client.request(Command.GET_GUILDS, {});
+
+    await client.login({ clientId: '123' });
+
+    expect(await activity).toEqual({ details: 'Queued' });
+    await guilds;
+    expect(commandFrames(Command.SET_ACTIVITY)).toHaveLength(1);
+    expect(server.frames.filter((frame) => frame.op === OpCode.FRAME).map((frame) => frame.payload.cmd)).toEqual([
+      Command.SET_ACTIVITY,
+      Command.GET_GUILDS,
+    ]);
+  });
+
+  test('coalesces queued activity updates into the latest one', async () => {
+    await setup();
+    const first = client.setActivity({ details: 'First' });
+    const second = client.setActivity({ details: 'Second' });
+
+    await client.login({ clientId: '123' });
+
+    expect(await Promise.all([first, second])).toEqual([{ details: 'Second' }, { details: 'Second' }]);
+    expect(commandFrames(Command.SET_ACTIVITY)).toHaveLength(1);
+  });
+
+  test('resolves an expired activity update with null and restores it after READY', async () => {
+    await setup({ queue: { expiry: 20 } });
+
+    expect(await client.setActivity({ details: 'Late' })).toBeNull();
+
+    await client.login({ clientId: '123' });
+    await server.waitForCommand(Command.SET_ACTIVITY);
+    expect(commandFrames(Command.SET_ACTIVITY)[0].payload.args.activity).toEqual({ details: 'Late' });
+  });
+
+  test('rejects commands beyond the queue size', async () => {
+    await setup({ queue: { maxSize: 1 } });
+    const first = client.request(Command.GET_GUILDS, {});
+
+    await expect(client.request(Command.GET_CHANNELS, { guild_id: '42' })).rejects.toMatchObject({ reason: 'overflow' });
+
+    await client.login({ clientId: '123' });
+    await first;
+  });
+
+  test('resolves a queued activity update with null on destroy', async () => {
+    await setup();
+    const pending = client.setActivity({ details: 'Never sent' });
+
+    await client.destroy();
+
+    expect(await pending).toBeNull();
+  });
+
+  test('rejects other queued commands on destroy', async () => {
+    await setup();
+    const pending = client.request(Command.GET_GUILDS, {});
+
+    await client.destroy();
+
+    await expect(pending).rejects.toThrow('GET_GUILDS request was cancelled (destroyed).');
+  });
+});
+
+describe('subscriptions', () => {
+  test('shares identical subscriptions and unsubscribes with the last one', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+
+    const first = await client.subscribe(Event.GUILD_STATUS, { guild_id: '42' });
+    const second = await client.subscribe(Event.GUILD_STATUS, { guild_id: '42' });
+    expect(client.subscriptions).toEqual([{ event: Event.GUILD_STATUS, args: { guild_id: '42' }, refCount: 2, active: true }]);
+
+    await first.unsubscribe();
+    await first.unsubscribe();
+    expect(commandFrames(Command.UNSUBSCRIBE)).toHaveLength(0);
+
+    await second.unsubscribe();
+    expect(commandFrames(Command.SUBSCRIBE)).toHaveLength(1);
+    expect(commandFrames(Command.UNSUBSCRIBE)).toHaveLength(1);
+    expect(client.subscriptions).toEqual([]);
+  });
+
+  test('replays subscriptions and the last activity after reconnecting', async () => {
+    await setup({ reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    await client.subscribe(Event.ACTIVITY_JOIN);
+    await client.setActivity({ details: 'Before restart' });
+
+    const resubscribed = once(client, Command.SUBSCRIBE);
+    const restored = once(client, Command.SET_ACTIVITY);
+    server.disconnect();
+    await Promise.all([resubscribed, restored]);
+
+    expect(commandFrames(Command.SUBSCRIBE).map((frame) => frame.payload.evt)).toEqual([Event.ACTIVITY_JOIN, Event.ACTIVITY_JOIN]);
+    expect(commandFrames(Command.SET_ACTIVITY).map((frame) => frame.payload.args.activity)).toEqual([
+      { details: 'Before restart' },
+      { details: 'Before restart' },
+    ]);
+    expect(client.subscriptions).toEqual([{ event: Event.ACTIVITY_JOIN, args: {}, refCount: 1, active: true }]);
+  });
+
+  test('delivers subscribed events after reconnecting', async () => {
+    await setup({ reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    await client.subscribe(Event.ACTIVITY_JOIN);
+
+    const resubscribed = once(client, Command.SUBSCRIBE);
+    server.disconnect();
+    await resubscribed;
+
+    const join = once(client, Event.ACTIVITY_JOIN);
+    server.dispatch(Event.ACTIVITY_JOIN, { secret: 'join-secret' });
+    expect((await join)[0]).toEqual({ secret: 'join-secret' });
+  });
+
+  test('unsubscribes once a replayed subscription in flight succeeds', async () => {
+    await setup({ reconnect: { initialDelay: 10, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    const { unsubscribe } = await client.subscribe(Event.ACTIVITY_JOIN);
+
+    server.respond(Command.SUBSCRIBE, () => new Promise((resolve) => setTimeout(() => resolve({ evt: Event.ACTIVITY_JOIN }), 20)));
+    const replayed = server.waitForCommand(Command.SUBSCRIBE);
+    server.disconnect();
+    await replayed;
+    await unsubscribe();
+
+    expect(commandFrames(Command.UNSUBSCRIBE).map((frame) => frame.payload.evt)).toEqual([Event.ACTIVITY_JOIN]);
+    expect(client.subscriptions).toEqual([]);
+  });
+});
+
+describe('connection state', () => {
+  test('moves through the handshake to ready on login', async () => {
+    await setup();
+    const states: ConnectionState[] = [];
+    client.on('stateChange', ({ to }) => states.push(to));
+
+    const response = await client.login({ clientId: '123' });
+
+    expect(response.user.username).toBe('tester');
+    expect(client.state).toBe(ConnectionState.Ready);
+    expect(states).toEqual([ConnectionState.Connecting, ConnectionState.Handshaking, ConnectionState.Ready]);
+  });
+
+  test('rejects a second login', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+
+    await expect(client.login({ clientId: '123' })).rejects.toThrow('Cannot log in while the client is ready.');
+  });
+
+  test('rejects commands after destroy', async () => {
+    await setup();
+    await client.login({ clientId: '123' });
+    await client.destroy();
+
+    expect(client.state).toBe(ConnectionState.Destroyed);
+    await expect(client.setActivity({ details: 'Too late' })).rejects.toThrow(InvalidStateError);
+    await expect(client.login({ clientId: '123' })).rejects.toThrow(InvalidStateError);
+  });
+
+  test('does not reconnect when the connection closes while destroying', async () => {
+    await setup({ reconnect: { initialDelay: 5, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    await client.setActivity({ details: 'Playing' });
+    server.respond(Command.SET_ACTIVITY, () => {
+      server.disconnect();
+      return new Promise(() => {});
+    });
+
+    await client.destroy();
+    await sleep(30);
+
+    expect(client.state).toBe(ConnectionState.Destroyed);
+    expect(handshakes()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { once } from 'node:events';
+
+import { Client, Command, Event, FrameDecoder, FrameEncoder, OpCode, ProtocolError, type DecodedFrame, type Transport } from '../src';
+
+/**
+ * Creates a decoder collecting the frames and protocol errors it emits.
+ */
+const decode = (options?: { maxFrameSize?: number }) => {
+  const decoder = new FrameDecoder(options);
+  const frames: DecodedFrame[] = [];
+  const errors: ProtocolError[] = [];
+  decoder.on('frame', (frame) => frames.push(frame));
+  decoder.on('protocolError', (error) => errors.push(error));
+  return { decoder, frames, errors };
+};
+
+/**
+ * Builds a frame by hand, so tests can send bodies the encoder refuses.
+ */
+const rawFrame = (op: number, body: string) => {
+  const header = Buffer.alloc(8);
+  header.writeUInt32LE(op, 0);
+  header.writeUInt32LE(Buffer.byteLength(body), 4);
+  return Buffer.concat([header, Buffer.from(body)]);
+};
+
+describe('FrameDecoder', () => {
+  test('reassembles frames split across chunks', () => {
+    const { decoder, frames } = decode();
+    const frame = new FrameEncoder().encode(OpCode.FRAME, { cmd: Command.DISPATCH, data: { text: 'é'.repeat(100) } });
+
+    for (const byte of frame) decoder.push(Uint8Array.of(byte));
+
+    expect(frames).toEqual([{ op: OpCode.FRAME, payload: { cmd: Command.DISPATCH, data: { text: 'é'.repeat(100) } } }]);
+    expect(decoder.bufferedLength).toBe(0);
+  });
+
+  test('splits frames joined in one chunk', () => {
+    const { decoder, frames } = decode();
+    const encoder = new FrameEncoder();
+    const second = encoder.encode(OpCode.PONG, { nonce: 'b' });
+
+    decoder.push(Buffer.concat([encoder.encode(OpCode.PING, { nonce: 'a' }), second.subarray(0, 5)]));
+    expect(frames).toEqual([{ op: OpCode.PING, payload: { nonce: 'a' } }]);
+    expect(decoder.bufferedLength).toBe(5);
+
+    decoder.push(second.subarray(5));
+    expect(frames.at(-1)).toEqual({ op: OpCode.PONG, payload: { nonce: 'b' } });
+  });
+
+  test('drops the buffer when a header announces an oversized frame', () => {
+    const { decoder, frames, errors } = decode({ maxFrameSize: 16 });
+
+    decoder.push(rawFrame(OpCode.FRAME, JSON.stringify({ text: 'far too long' })));
+
+    expect(errors[0]).toMatchObject({ reason: 'frame_too_large', op: OpCode.FRAME });
+    expect(decoder.bufferedLength).toBe(0);
+
+    decoder.push(rawFrame(OpCode.PING, '{}'));
+    expect(frames).toEqual([{ op: OpCode.PING, payload: {} }]);
+  });
+
+  test('skips frames with invalid JSON or an unknown OpCode', () => {
+    const { decoder, frames, errors } = decode();
+
+    decoder.push(Buffer.concat([rawFrame(OpCode.FRAME, '{"cmd":'), rawFrame(42, '{}'), rawFrame(OpCode.PING, '{}')]));
+
+    expect(errors.map((error) => error.reason)).toEqual(['invalid_json', 'unknown_opcode']);
+    expect(errors[0].cause).toBeInstanceOf(SyntaxError);
+    expect(errors[1].op).toBe(42);
+    expect(frames).toEqual([{ op: OpCode.PING, payload: {} }]);
+  });
+
+  test('skips bodies which are not JSON objects', () => {
+    const { decoder, frames, errors } = decode();
+
+    decoder.push(Buffer.concat([rawFrame(OpCode.FRAME, 'null'), rawFrame(OpCode.FRAME, '42'), rawFrame(OpCode.FRAME, '[]')]));
+
+    expect(errors.map((error) => error.reason)).toEqual(['invalid_payload', 'invalid_payload', 'invalid_payload']);
+    expect(frames).toEqual([]);
+  });
+});
+
+describe('FrameEncoder', () => {
+  test('refuses unknown OpCodes and oversized bodies', () => {
+    const encoder = new FrameEncoder({ maxFrameSize: 8 });
+
+    expect(() => encoder.encode(42 as OpCode, {})).toThrow(ProtocolError);
+    expect(() => encoder.encode(OpCode.FRAME, { text: 'far too long' })).toThrow('exceeds the maximum of 8 bytes');
+  });
+});
+
+describe('Client', () => {
+  let client: Client;
+
+  afterEach(async () => {
+    await client?.destroy();
+  });
+
+  test('reports frames from custom transports which are not objects', async () => {
+    let receive!: (op: OpCode, data: any) => void;
+    const transport: Transport = {
+      connect: async () => {},
+      send: async (op, payload: any) => {
+        const reply =
+          op === OpCode.HANDSHAKE
+            ? { cmd: Command.DISPATCH, evt: Event.READY, data: { v: 1, config: {}, user: { id: '1' } } }
+            : { cmd: payload.cmd, data: null, evt: null, nonce: payload.nonce };
+        setTimeout(() => receive(OpCode.FRAME, reply));
+      },
+      onData: (callback) => {
+        receive = callback;
+      },
+      onClose: () => {},
+      destroy: () => {},
+    };
+    client = new Client({ transport, logger: false });
+    await client.login({ clientId: '123' });
+
+    const error = once(client, 'protocolError');
+    receive(OpCode.FRAME, null);
+
+    expect((await error)[0]).toMatchObject({ reason: 'invalid_payload', op: OpCode.FRAME });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { Client, Command, Event, MockDiscordServer, NotConnectedError, OpCode, SocketConnection, type Transport } from '../src';
+
+let server: MockDiscordServer | undefined;
+let connection: SocketConnection | undefined;
+
+/**
+ * Starts a mock server and connects a socket transport to it.
+ */
+const setup = async () => {
+  server = new MockDiscordServer();
+  await server.listen();
+  connection = new SocketConnection();
+  connection.setPathList([server.pathData]);
+  await connection.connect();
+  return connection;
+};
+
+/**
+ * Payload large enough to fill the socket's write buffer.
+ */
+const bulky = (nonce: string) => ({ nonce, padding: 'x'.repeat(1024 * 1024) });
+
+afterEach(async () => {
+  connection?.destroy();
+  connection = undefined;
+  await server?.close();
+  server = undefined;
+});
+
+describe('SocketConnection', () => {
+  test('rejects sends without a connection', async () => {
+    const unconnected = new SocketConnection();
+
+    const error = await unconnected.send(OpCode.PING, { nonce: 'a' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(NotConnectedError);
+    expect(error.op).toBe(OpCode.PING);
+  });
+
+  test('writes frames in order while the socket drains', async () => {
+    const connection = await setup();
+    const nonces = ['a', 'b', 'c', 'd', 'e'];
+
+    await Promise.all(nonces.map((nonce) => connection.send(OpCode.PING, bulky(nonce))));
+    while (server!.frames.length < nonces.length) await Bun.sleep(5);
+
+    expect(server!.frames.map((frame) => frame.payload.nonce)).toEqual(nonces);
+  });
+
+  test('rejects queued frames when the socket closes', async () => {
+    const connection = await setup();
+
+    const sends = ['a', 'b', 'c', 'd', 'e'].map((nonce) => connection.send(OpCode.PING, bulky(nonce)));
+    connection.destroy();
+    const results = await Promise.allSettled(sends);
+
+    expect(results.at(-1)).toMatchObject({ status: 'rejected', reason: expect.any(NotConnectedError) });
+  });
+});
+
+describe('Client', () => {
+  let client: Client;
+
+  afterEach(async () => {
+    await client?.destroy();
+  });
+
+  test('rejects requests whose frame could not be sent', async () => {
+    let receive!: (op: OpCode, data: any) => void;
+    const transport: Transport = {
+      connect: async () => {},
+      send: async (op) => {
+        if (op === OpCode.HANDSHAKE) {
+          setTimeout(() => receive(OpCode.FRAME, { cmd: Command.DISPATCH, evt: Event.READY, data: { v: 1, config: {}, user: { id: '1' } } }));
+          return;
+        }
+        throw new NotConnectedError(op);
+      },
+      onData: (callback) => {
+        receive = callback;
+      },
+      onClose: () => {},
+      destroy: () => {},
+    };
+    client = new Client({ transport, logger: false });
+    await client.login({ clientId: '123' });
+
+    await expect(client.request(Command.GET_GUILDS)).rejects.toThrow(NotConnectedError);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { writeFileSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Client, listDiscordInstances, MockDiscordServer, SocketConnection, type PathData } from '../src';
+
+let dir: string;
+let servers: MockDiscordServer[];
+let client: Client | undefined;
+const { DISCORD_IPC_PATH, XDG_RUNTIME_DIR } = process.env;
+
+/**
+ * Location of numbered sockets inside the test directory.
+ */
+const pathData = (): PathData => ({ platform: [process.platform], format: (id) => join(dir, `discord-ipc-${id}`) });
+
+/**
+ * Starts a mock server listening on a socket path.
+ */
+const listen = async (path: string) => {
+  const server = new MockDiscordServer({ path });
+  await server.listen();
+  servers.push(server);
+  return server;
+};
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'discord-rpc-'));
+  servers = [];
+});
+
+afterEach(async () => {
+  await client?.destroy();
+  client = undefined;
+  await Promise.all(servers.map((server) => server.close()));
+  // Assigning undefined would store the string 'undefined'
+  if (DISCORD_IPC_PATH === undefined) delete process.env.DISCORD_IPC_PATH;
+  else process.env.DISCORD_IPC_PATH = DISCORD_IPC_PATH;
+  if (XDG_RUNTIME_DIR === undefined) delete process.env.XDG_RUNTIME_DIR;
+  else process.env.XDG_RUNTIME_DIR = XDG_RUNTIME_DIR;
+  await rm(dir, { recursive: true, force: true });
+});
+
+// Named pipes can't live in a temp directory
+describe.skipIf(process.platform === 'win32')('discovery', () => {
+  test('lists every reachable instance in pipe order', async () => {
+    await listen(join(dir, 'discord-ipc-2'));
+    await listen(join(dir, 'discord-ipc-0'));
+    // A socket file left behind by a crashed client
+    writeFileSync(join(dir, 'discord-ipc-1'), '');
+
+    expect(await listDiscordInstances([pathData()])).toEqual([
+      { index: 0, path: join(dir, 'discord-ipc-0') },
+      { index: 2, path: join(dir, 'discord-ipc-2') },
+    ]);
+  });
+
+  test('connects to the path in DISCORD_IPC_PATH', async () => {
+    const server = await listen(join(dir, 'pinned'));
+    process.env.DISCORD_IPC_PATH = server.path;
+    client = new Client({ logger: false, reconnect: false });
+
+    await client.login({ clientId: '123' });
+
+    expect(server.frames).toHaveLength(1);
+  });
+
+  test('prefers the path option over DISCORD_IPC_PATH', async () => {
+    const server = await listen(join(dir, 'chosen'));
+    process.env.DISCORD_IPC_PATH = join(dir, 'missing');
+    const connection = new SocketConnection({ path: server.path });
+
+    await connection.connect();
+    connection.destroy();
+
+    await expect(new SocketConnection().connect()).rejects.toThrow(`Could not connect to the Discord instance at ${join(dir, 'missing')}.`);
+  });
+
+  test('reads the runtime directory when connecting', async () => {
+    const server = await listen(join(dir, 'discord-ipc-0'));
+    process.env.XDG_RUNTIME_DIR = dir;
+    delete process.env.DISCORD_IPC_PATH;
+    client = new Client({ logger: false, reconnect: false });
+
+    await client.login({ clientId: '123' });
+
+    expect(server.frames).toHaveLength(1);
+  });
+});
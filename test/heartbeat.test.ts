@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { once } from 'node:events';
+
+import { Client, Command, Event, MockDiscordServer, OpCode, type ClientOptions, type Transport } from '../src';
+
+/**
+ * Transport standing in for Discord which answers the handshake and commands, and PINGs unless told not to.
+ */
+class ScriptedTransport implements Transport {
+  public readonly keepsAlive: boolean;
+  public answerPings = true;
+  public sent: { op: OpCode; payload: any }[] = [];
+  private dataCallback?: (op: OpCode, data: any) => void;
+  private closeCallback?: () => void;
+
+  constructor(keepsAlive = false) {
+    this.keepsAlive = keepsAlive;
+  }
+
+  async connect() {}
+
+  async send(op: OpCode, payload: any) {
+    this.sent.push({ op, payload });
+
+    if (op === OpCode.HANDSHAKE) {
+      this.receive(OpCode.FRAME, { cmd: Command.DISPATCH, evt: Event.READY, data: { v: 1, config: {}, user: { id: '1', username: 'scripted' } } });
+    } else if (op === OpCode.FRAME) {
+      this.receive(OpCode.FRAME, { cmd: payload.cmd, data: payload.args?.activity ?? null, evt: null, nonce: payload.nonce });
+    } else if (op === OpCode.PING && this.answerPings) {
+      this.receive(OpCode.PONG, payload);
+    }
+  }
+
+  receive(op: OpCode, data: any) {
+    setTimeout(() => this.dataCallback?.(op, data));
+  }
+
+  onData(callback: (op: OpCode, data: any) => void) {
+    this.dataCallback = callback;
+  }
+
+  onClose(callback: () => void) {
+    this.closeCallback = callback;
+  }
+
+  destroy() {
+    this.closeCallback?.();
+  }
+}
+
+let server: MockDiscordServer | undefined;
+let client: Client;
+
+/**
+ * Creates a client using a scripted transport.
+ */
+const setup = (transport: ScriptedTransport, options?: ClientOptions) => {
+  client = new Client({ transport, logger: false, ...options });
+  return transport;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(async () => {
+  await client?.destroy();
+  await server?.close();
+  server = undefined;
+});
+
+describe('heartbeat', () => {
+  test('measures the latency from PONGs', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    client = new Client({ pathList: [server.pathData], heartbeat: { interval: 10 } });
+    await client.login({ clientId: '123' });
+
+    const [pong] = await once(client, 'pong');
+
+    expect(pong.latency).toBeGreaterThanOrEqual(0);
+    expect(client.latency).toBe(pong.latency);
+    expect(server.frames.some((frame) => frame.op === OpCode.PING && frame.payload.nonce === pong.nonce)).toBe(true);
+  });
+
+  test('answers PINGs from Discord', async () => {
+    const transport = setup(new ScriptedTransport());
+    await client.login({ clientId: '123' });
+
+    const ping = once(client, 'ping');
+    transport.receive(OpCode.PING, { nonce: 'from-discord' });
+
+    expect((await ping)[0]).toEqual({ nonce: 'from-discord' });
+    expect(transport.sent.at(-1)).toEqual({ op: OpCode.PONG, payload: { nonce: 'from-discord' } });
+  });
+
+  test('reconnects after too many missed PONGs', async () => {
+    const transport = setup(new ScriptedTransport(), { heartbeat: { interval: 5, maxMissed: 2 }, reconnect: { initialDelay: 5, jitter: 0 } });
+    await client.login({ clientId: '123' });
+    transport.answerPings = false;
+
+    const [{ error }] = await once(client, 'reconnecting');
+
+    expect(error.message).toBe('Discord did not answer 2 heartbeats in a row.');
+    expect(client.latency).toBeUndefined();
+  });
+
+  test('does not ping transports which keep themselves alive', async () => {
+    const transport = setup(new ScriptedTransport(true), { heartbeat: { interval: 5 } });
+    await client.login({ clientId: '123' });
+
+    await sleep(30);
+
+    expect(transport.sent.some(({ op }) => op === OpCode.PING)).toBe(false);
+  });
+});
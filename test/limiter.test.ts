@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+
+import { CoalescingRateLimiter } from '../src/limiter';
+
+/**
+ * Creates a limiter recording every value it sends.
+ */
+const createLimiter = (limit: number, interval: number) => {
+  const sent: number[] = [];
+  const limiter = new CoalescingRateLimiter<number, number>({ limit, interval }, async (value) => {
+    sent.push(value);
+    return value;
+  });
+  return { limiter, sent };
+};
+
+describe('CoalescingRateLimiter', () => {
+  test('sends values right away while the window has room', async () => {
+    const { limiter, sent } = createLimiter(3, 1_000);
+
+    expect(await Promise.all([limiter.push(1), limiter.push(2), limiter.push(3)])).toEqual([1, 2, 3]);
+    expect(sent).toEqual([1, 2, 3]);
+  });
+
+  test('coalesces values pushed while the window is full into the latest one', async () => {
+    const { limiter, sent } = createLimiter(1, 50);
+
+    const results = await Promise.all([limiter.push(1), limiter.push(2), limiter.push(3), limiter.push(4)]);
+
+    expect(sent).toEqual([1, 4]);
+    expect(results).toEqual([1, 4, 4, 4]);
+    expect(limiter.isPending).toBe(false);
+  });
+
+  test('waits for a slot to free up', async () => {
+    const { limiter } = createLimiter(1, 50);
+    const start = Date.now();
+
+    await limiter.push(1);
+    await limiter.push(2);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  test('resolves waiting callers with the given result on cancel', async () => {
+    const { limiter, sent } = createLimiter(1, 10_000);
+
+    await limiter.push(1);
+    const pending = [limiter.push(2), limiter.push(3)];
+    limiter.cancel(0);
+
+    expect(await Promise.all(pending)).toEqual([0, 0]);
+    expect(sent).toEqual([1]);
+    expect(limiter.isPending).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { once } from 'node:events';
+
+import { Client, Command, createLogger, LogLevel, MockDiscordServer, redact, type Logger, type LogMeta } from '../src';
+
+/**
+ * Logger collecting every message it receives.
+ */
+const recorder = () => {
+  const messages: { level: keyof Logger; message: string; meta?: LogMeta }[] = [];
+  const record = (level: keyof Logger) => (message: string, meta?: LogMeta) => messages.push({ level, message, meta });
+  const logger: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+  return { logger, messages };
+};
+
+describe('redact', () => {
+  test('replaces secrets at any depth', () => {
+    const value = { args: { access_token: 'a', scopes: ['rpc'] }, tokens: [{ refresh_token: 'r', client_secret: 's' }] };
+
+    expect(redact(value)).toEqual({
+      args: { access_token: '[REDACTED]', scopes: ['rpc'] },
+      tokens: [{ refresh_token: '[REDACTED]', client_secret: '[REDACTED]' }],
+    });
+    expect(value.args.access_token).toBe('a');
+  });
+
+  test('keeps numeric codes and class instances', () => {
+    const error = new Error('Invalid token');
+
+    expect(redact({ code: 'oauth-code' })).toEqual({ code: '[REDACTED]' });
+    expect(redact({ code: 4000, message: 'Invalid token' })).toEqual({ code: 4000, message: 'Invalid token' });
+    expect(redact({ error }).error).toBe(error);
+  });
+});
+
+describe('createLogger', () => {
+  test('drops messages below the level', () => {
+    const { logger, messages } = recorder();
+    const log = createLogger(logger, LogLevel.Info);
+
+    log.debug('debug');
+    log.info('info');
+    log.error('error', { access_token: 'a' });
+
+    expect(messages).toEqual([
+      { level: 'info', message: 'info', meta: undefined },
+      { level: 'error', message: 'error', meta: { access_token: '[REDACTED]' } },
+    ]);
+  });
+
+  test('logs nothing when silent or disabled', () => {
+    const { logger, messages } = recorder();
+
+    createLogger(logger, LogLevel.Silent).error('error');
+    createLogger(false, LogLevel.Debug).error('error');
+
+    expect(messages).toEqual([]);
+  });
+});
+
+describe('Client', () => {
+  let server: MockDiscordServer;
+  let client: Client;
+
+  afterEach(async () => {
+    await client?.destroy();
+    await server?.close();
+  });
+
+  test('traces frames in debug mode without leaking tokens', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    const { logger, messages } = recorder();
+    client = new Client({ pathList: [server.pathData], logger, logLevel: LogLevel.Debug });
+
+    await client.login({ clientId: '123', accessToken: 'secret-token' });
+
+    const sent = messages.find(({ message, meta }) => message === 'Sending frame' && meta?.cmd === Command.AUTHENTICATE);
+    expect(sent).toMatchObject({ level: 'debug', message: 'Sending frame', meta: { payload: { args: { access_token: '[REDACTED]' } } } });
+    expect(messages.some(({ message }) => message === 'Received frame')).toBe(true);
+    expect(JSON.stringify(messages)).not.toContain('secret-token');
+  });
+
+  test('logs warnings and errors by default', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    const { logger, messages } = recorder();
+    client = new Client({ pathList: [server.pathData], logger, reconnect: false });
+    await client.login({ clientId: '123' });
+
+    const failed = once(client, 'reconnectFailed');
+    server.disconnect();
+    await failed;
+
+    expect(messages.map(({ level, message }) => ({ level, message }))).toEqual([
+      { level: 'error', message: 'Could not connect to Discord, giving up after 0 attempts.' },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { connect, type Socket } from 'node:net';
+
+import { Client, CloseCodes, Command, Event, MockDiscordServer, OpCode } from '../src';
+
+let server: MockDiscordServer;
+let sockets: Socket[] = [];
+
+/**
+ * Connects a raw IPC socket to the mock server, collecting every frame it receives.
+ */
+const connectRaw = async () => {
+  const socket = connect(server.path);
+  sockets.push(socket);
+  await new Promise((resolve) => socket.once('connect', resolve));
+
+  const frames: { op: OpCode; payload: any }[] = [];
+  const waiting: (() => void)[] = [];
+  let buffer = Buffer.alloc(0);
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 8 && buffer.length >= 8 + buffer.readUInt32LE(4)) {
+      const length = buffer.readUInt32LE(4);
+      frames.push({ op: buffer.readUInt32LE(0), payload: JSON.parse(buffer.subarray(8, 8 + length).toString()) });
+      buffer = buffer.subarray(8 + length);
+      waiting.shift()?.();
+    }
+  });
+
+  return {
+    send: (op: OpCode, payload: object) => {
+      const body = Buffer.from(JSON.stringify(payload));
+      const header = Buffer.alloc(8);
+      header.writeUInt32LE(op, 0);
+      header.writeUInt32LE(body.length, 4);
+      socket.write(Buffer.concat([header, body]));
+    },
+    next: async () => {
+      if (frames.length === 0) await new Promise<void>((resolve) => waiting.push(resolve));
+      return frames.shift()!;
+    },
+    closed: new Promise((resolve) => socket.once('close', resolve)),
+  };
+};
+
+afterEach(async () => {
+  sockets.forEach((socket) => socket.destroy());
+  sockets = [];
+  await server?.close();
+});
+
+describe('MockDiscordServer', () => {
+  test('answers the handshake with READY', async () => {
+    server = new MockDiscordServer({ ready: { user: { username: 'tester' } } });
+    await server.listen();
+    const raw = await connectRaw();
+
+    raw.send(OpCode.HANDSHAKE, { v: 1, client_id: '123' });
+    const { op, payload } = await raw.next();
+
+    expect(op).toBe(OpCode.FRAME);
+    expect(payload.evt).toBe(Event.READY);
+    expect(payload.data.user.username).toBe('tester');
+    expect(payload.data.user.id).toBe('1045940839423397918');
+    expect(server.frames).toEqual([{ op: OpCode.HANDSHAKE, payload: { v: 1, client_id: '123' } }]);
+    expect(server.connectionCount).toBe(1);
+  });
+
+  test('closes handshakes with another client ID', async () => {
+    server = new MockDiscordServer({ clientId: '123' });
+    await server.listen();
+    const raw = await connectRaw();
+
+    raw.send(OpCode.HANDSHAKE, { v: 1, client_id: '456' });
+
+    expect(await raw.next()).toEqual({ op: OpCode.CLOSE, payload: { code: CloseCodes.INVALID_CLIENTID, message: 'Invalid Client ID' } });
+    await raw.closed;
+  });
+
+  test('echoes PING frames as PONG', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    const raw = await connectRaw();
+
+    raw.send(OpCode.PING, { nonce: 'abc' });
+
+    expect(await raw.next()).toEqual({ op: OpCode.PONG, payload: { nonce: 'abc' } });
+  });
+
+  test('answers commands with scripted replies and errors', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    server.respond(Command.GET_GUILD, (args) => ({ id: args.guild_id, name: 'Test Guild' }));
+    server.fail(Command.CREATE_LOBBY, 5007, 'Lobby is full');
+    const raw = await connectRaw();
+
+    raw.send(OpCode.FRAME, { cmd: Command.GET_GUILD, args: { guild_id: '42' }, nonce: 'a' });
+    expect((await raw.next()).payload).toEqual({ cmd: Command.GET_GUILD, data: { id: '42', name: 'Test Guild' }, evt: null, nonce: 'a' });
+
+    raw.send(OpCode.FRAME, { cmd: Command.CREATE_LOBBY, args: {}, nonce: 'b' });
+    expect((await raw.next()).payload).toEqual({
+      cmd: Command.CREATE_LOBBY,
+      data: { code: 5007, message: 'Lobby is full' },
+      evt: Event.ERROR,
+      nonce: 'b',
+    });
+
+    raw.send(OpCode.FRAME, { cmd: Command.SET_ACTIVITY, args: { activity: { details: 'Echo' } }, nonce: 'c' });
+    expect((await raw.next()).payload.data).toEqual({ details: 'Echo' });
+  });
+
+  test('dispatches events and disconnects clients on demand', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    const raw = await connectRaw();
+    raw.send(OpCode.HANDSHAKE, { v: 1, client_id: '123' });
+    await raw.next();
+
+    server.dispatch(Event.ACTIVITY_JOIN, { secret: 'join-secret' });
+    expect((await raw.next()).payload).toEqual({ cmd: Command.DISPATCH, evt: Event.ACTIVITY_JOIN, data: { secret: 'join-secret' }, nonce: null });
+
+    server.disconnect(CloseCodes.CLOSE_NORMAL, 'Bye');
+    expect(await raw.next()).toEqual({ op: OpCode.CLOSE, payload: { code: CloseCodes.CLOSE_NORMAL, message: 'Bye' } });
+    await raw.closed;
+  });
+
+  test('waits for a command', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    const raw = await connectRaw();
+
+    const frame = server.waitForCommand(Command.GET_GUILDS);
+    raw.send(OpCode.FRAME, { cmd: Command.GET_GUILDS, args: {}, nonce: 'a' });
+
+    expect(await frame).toEqual({ cmd: Command.GET_GUILDS, args: {}, nonce: 'a' });
+  });
+
+  test('lets a Client log in and set its activity', async () => {
+    server = new MockDiscordServer({ ready: { user: { username: 'tester' } } });
+    await server.listen();
+    const client = new Client({ pathList: [server.pathData] });
+
+    const ready = await client.login({ clientId: '123' });
+    const activity = server.waitForCommand(Command.SET_ACTIVITY);
+    client.setActivity({ details: 'Testing' });
+
+    expect(ready.user.username).toBe('tester');
+    expect((await activity).args.activity).toEqual({ details: 'Testing' });
+    await client.destroy();
+  });
+});
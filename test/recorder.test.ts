@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  Client,
+  Command,
+  Event,
+  MockDiscordServer,
+  OpCode,
+  readRecording,
+  SocketConnection,
+  TrafficRecorder,
+  TrafficReplayer,
+  type Logger,
+} from '../src';
+
+let dir: string;
+let server: MockDiscordServer | undefined;
+
+/**
+ * Records a session logging in with an access token and setting an activity.
+ */
+const recordSession = async (path: string) => {
+  server = new MockDiscordServer();
+  await server.listen();
+  const recorder = new TrafficRecorder(path);
+  const transport = new SocketConnection({ recorder });
+  transport.setPathList([server.pathData]);
+  const client = new Client({ transport, logger: false });
+
+  await client.login({ clientId: '123', accessToken: 'secret-token' });
+  await client.setActivity({ details: 'Recorded' });
+  await client.destroy();
+  await recorder.close();
+};
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+  if (dir) await rm(dir, { recursive: true, force: true });
+});
+
+describe('TrafficRecorder', () => {
+  test('writes every frame with secrets redacted', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'discord-rpc-'));
+    const path = join(dir, 'session.jsonl');
+
+    await recordSession(path);
+    const frames = await readRecording(path);
+
+    expect(frames[0]).toMatchObject({ direction: 'out', op: OpCode.HANDSHAKE, payload: { client_id: '123' } });
+    expect(frames[1]).toMatchObject({ direction: 'in', op: OpCode.FRAME, payload: { evt: Event.READY } });
+    expect(frames.find((frame) => frame.payload.cmd === Command.AUTHENTICATE)?.payload.args).toEqual({ access_token: '[REDACTED]' });
+    expect(frames.every((frame) => typeof frame.time === 'number')).toBe(true);
+  });
+
+  test('stops recording when the file cannot be written', async () => {
+    const messages: string[] = [];
+    const log = (message: string) => messages.push(message);
+    const logger: Logger = { debug: log, info: log, warn: log, error: log };
+    const recorder = new TrafficRecorder(join(tmpdir(), 'missing-directory', 'session.jsonl'), { logger });
+
+    while (recorder.isActive) await Bun.sleep(5);
+    recorder.record('out', OpCode.PING, { nonce: 'a' });
+    await recorder.close();
+
+    expect(messages).toEqual([expect.stringContaining('Stopped recording')]);
+  });
+});
+
+describe('TrafficReplayer', () => {
+  test('replays a recorded session', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'discord-rpc-'));
+    const path = join(dir, 'session.jsonl');
+    await recordSession(path);
+
+    const replayer = await TrafficReplayer.fromFile(path);
+    const client = new Client({ transport: replayer, logger: false });
+    const ready = await client.login({ clientId: '123', accessToken: 'another-token' });
+    const activity = await client.setActivity({ details: 'Recorded' });
+    await client.destroy();
+
+    expect(ready.user.username).toBe('mock');
+    expect(activity).toEqual({ details: 'Recorded' });
+    expect(replayer.isFinished).toBe(true);
+    expect(replayer.unexpected).toEqual([]);
+  });
+
+  test('reports frames the recording did not expect', async () => {
+    const replayer = new TrafficReplayer([
+      { direction: 'out', op: OpCode.HANDSHAKE, time: 0, payload: { v: 1, client_id: '123' } },
+      { direction: 'in', op: OpCode.FRAME, time: 0, payload: { cmd: Command.DISPATCH, evt: Event.READY, data: { v: 1, config: {}, user: { id: '1' } } } },
+    ]);
+    const client = new Client({ transport: replayer, logger: false, requestTimeout: 20 });
+    await client.login({ clientId: '123' });
+
+    await expect(client.request(Command.GET_GUILDS)).rejects.toThrow();
+    await client.destroy();
+
+    expect(replayer.unexpected.map(({ payload }) => (payload as any).cmd)).toEqual([Command.GET_GUILDS, Command.SET_ACTIVITY]);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import { EventEmitter } from 'node:events';
+
+import {
+  ConnectionState,
+  InvalidStateError,
+  PresenceBuilder,
+  PresenceRotator,
+  type ActivityPayload,
+  type Client,
+  type PresenceRotatorOptions,
+  type RotationEntry,
+} from '../src';
+
+/**
+ * Stand-in for a Client recording the activities it is asked to set, so timers can be faked.
+ */
+class RecordingClient extends EventEmitter {
+  public state = ConnectionState.Ready;
+  public activities: ActivityPayload[] = [];
+
+  async setActivity(activity: ActivityPayload) {
+    this.activities.push(activity);
+    return activity;
+  }
+
+  destroy() {
+    const from = this.state;
+    this.state = ConnectionState.Destroyed;
+    this.emit('stateChange', { from, to: this.state });
+  }
+}
+
+let client: RecordingClient;
+
+/**
+ * Creates a rotator for the recording client.
+ */
+const rotate = (entries: RotationEntry[], options?: PresenceRotatorOptions) => new PresenceRotator(client as unknown as Client, entries, options);
+
+/**
+ * Details of the activities set so far.
+ */
+const shown = () => client.activities.map(({ details }) => details);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  client = new RecordingClient();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('PresenceRotator', () => {
+  test('shows every entry for its duration', () => {
+    let viewers = 1;
+    const rotator = rotate(
+      [
+        { activity: { details: 'Payload' } },
+        { activity: new PresenceBuilder().setDetails('Builder'), duration: 5_000 },
+        { activity: () => ({ details: `Viewers: ${viewers++}` }), duration: 100 },
+      ],
+      { duration: 10_000 },
+    );
+
+    rotator.start();
+    jest.advanceTimersByTime(9_999);
+    expect(shown()).toEqual(['Payload']);
+
+    jest.advanceTimersByTime(1);
+    expect(shown()).toEqual(['Payload', 'Builder']);
+
+    // Durations below the minimum are raised to it
+    jest.advanceTimersByTime(5_000 + 4_000 + 10_000 + 5_000);
+    expect(shown()).toEqual(['Payload', 'Builder', 'Viewers: 1', 'Payload', 'Builder', 'Viewers: 2']);
+    expect(rotator.index).toBe(2);
+  });
+
+  test('shares the start timestamp between entries', () => {
+    const startedAt = Date.now();
+    const rotator = rotate([{ activity: { details: 'First' } }, { activity: { details: 'Second', timestamps: { start: 1, end: 2 } } }]);
+
+    rotator.start();
+    jest.advanceTimersByTime(30_000);
+    rotator.stop();
+    jest.advanceTimersByTime(60_000);
+    rotator.start();
+
+    expect(client.activities.map(({ timestamps }) => timestamps)).toEqual([{ start: startedAt }, { start: startedAt, end: 2 }, { start: startedAt }]);
+  });
+
+  test("keeps the entries' own timestamps when disabled", () => {
+    const rotator = rotate([{ activity: { details: 'Own', timestamps: { start: 1 } } }], { startTimestamp: false });
+
+    rotator.start();
+
+    expect(client.activities).toEqual([{ details: 'Own', timestamps: { start: 1 } }]);
+  });
+
+  test('resumes a paused entry for the rest of its duration', () => {
+    const rotator = rotate([{ activity: { details: 'First' } }, { activity: { details: 'Second' } }], { duration: 10_000 });
+
+    rotator.start();
+    jest.advanceTimersByTime(4_000);
+    rotator.pause();
+    jest.advanceTimersByTime(60_000);
+    expect(shown()).toEqual(['First']);
+    expect(rotator.isPaused).toBe(true);
+
+    rotator.resume();
+    jest.advanceTimersByTime(5_999);
+    expect(shown()).toEqual(['First']);
+    jest.advanceTimersByTime(1);
+    expect(shown()).toEqual(['First', 'Second']);
+  });
+
+  test('skips to the next entry, staying paused', () => {
+    const rotator = rotate([{ activity: { details: 'First' } }, { activity: { details: 'Second' } }], { duration: 10_000 });
+
+    rotator.start();
+    rotator.skip();
+    rotator.skip();
+    expect(shown()).toEqual(['First', 'Second', 'First']);
+
+    rotator.pause();
+    rotator.skip();
+    jest.advanceTimersByTime(60_000);
+    expect(rotator.index).toBe(1);
+    expect(rotator.isPaused).toBe(true);
+
+    // The skipped-to entry gets its full duration
+    rotator.resume();
+    jest.advanceTimersByTime(9_999);
+    expect(shown()).toEqual(['First', 'Second', 'First', 'Second']);
+    jest.advanceTimersByTime(1);
+    expect(shown()).toEqual(['First', 'Second', 'First', 'Second', 'First']);
+  });
+
+  test('reports failing entries and carries on', () => {
+    const rotator = rotate([
+      {
+        activity: () => {
+          throw new Error('No data');
+        },
+      },
+      { activity: { details: 'Fallback' } },
+    ]);
+    const errors: Error[] = [];
+    rotator.on('error', (error) => errors.push(error));
+
+    rotator.start();
+    jest.advanceTimersByTime(30_000);
+
+    expect(errors.map(({ message }) => message)).toEqual(['No data']);
+    expect(shown()).toEqual(['Fallback']);
+  });
+
+  test('stops once the client is destroyed', () => {
+    const rotator = rotate([{ activity: { details: 'Only' } }]);
+
+    rotator.start();
+    client.destroy();
+    jest.advanceTimersByTime(60_000);
+
+    expect(rotator.isRunning).toBe(false);
+    expect(shown()).toEqual(['Only']);
+    expect(() => rotator.start()).toThrow(InvalidStateError);
+  });
+});
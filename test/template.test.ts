@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+
+import { renderTemplate } from '../src';
+
+const now = 1_700_000_000_000;
+
+describe('renderTemplate', () => {
+  test('fills placeholders in every text field', () => {
+    const activity = renderTemplate(
+      {
+        details: 'Listening to {title}',
+        state: 'by {artist}',
+        assets: { large_image: '{cover}', large_text: '{album}' },
+        party: { id: 'room-{room}', size: ['{players}', 4] },
+        buttons: [{ label: 'Open {title}', url: 'https://example.com/{id}' }],
+      },
+      { title: 'Song', artist: 'Band', cover: 'cover-key', album: 'Album', room: 7, players: '2', id: 42 },
+      now,
+    );
+
+    expect(activity).toEqual({
+      details: 'Listening to Song',
+      state: 'by Band',
+      assets: { large_image: 'cover-key', large_text: 'Album' },
+      party: { id: 'room-7', size: [2, 4] },
+      buttons: [{ label: 'Open Song', url: 'https://example.com/42' }],
+    });
+  });
+
+  test('omits fields whose variables are missing', () => {
+    const activity = renderTemplate(
+      {
+        details: 'Playing {map}',
+        state: 'With {friend}',
+        party: { id: 'party', size: ['{players}', 4] },
+        buttons: [{ label: 'Join {friend}', url: 'https://example.com' }],
+      },
+      { map: 'Dust II', friend: null },
+      now,
+    );
+
+    expect(activity).toEqual({ details: 'Playing Dust II', party: { id: 'party' } });
+  });
+
+  test('does not resolve placeholders to inherited properties', () => {
+    expect(renderTemplate({ details: 'Built by {constructor}', state: '{toString}' }, {}, now)).toEqual({});
+  });
+
+  test('resolves timestamp expressions', () => {
+    const { timestamps } = renderTemplate(
+      { timestamps: { start: 'now', end: '+{duration}s' } },
+      { duration: 90 },
+      now,
+    );
+    const past = renderTemplate({ timestamps: { start: '-1.5h', end: '2024-01-01T00:00:00Z' } }, {}, now).timestamps;
+
+    expect(timestamps).toEqual({ start: now, end: now + 90_000 });
+    expect(past).toEqual({ start: now - 5_400_000, end: Date.parse('2024-01-01T00:00:00Z') });
+    expect(renderTemplate({ timestamps: { start: '1000', end: 2000 } }, {}, now).timestamps).toEqual({ start: 1000, end: 2000 });
+  });
+
+  test('throws on expressions it cannot parse', () => {
+    expect(() => renderTemplate({ timestamps: { start: 'soon' } })).toThrow('Invalid timestamp expression "soon".');
+    expect(() => renderTemplate({ party: { size: ['{players}', 4] } }, { players: 'many' })).toThrow('Invalid party size "many".');
+  });
+});
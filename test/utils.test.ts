@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+
+import { computeBackoff, deepClone, deepMerge, isDeepEqual, stableStringify, truncateText } from '../src/utils';
+
+describe('computeBackoff', () => {
+  const policy = { initialDelay: 100, multiplier: 2, jitter: 0, maxDelay: 1_000 };
+
+  test('grows the delay exponentially up to the maximum', () => {
+    expect([1, 2, 3, 4, 5, 6].map((attempt) => computeBackoff(attempt, policy))).toEqual([100, 200, 400, 800, 1_000, 1_000]);
+  });
+
+  test('keeps the jitter within its fraction of the delay', () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = computeBackoff(2, { ...policy, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+describe('isDeepEqual', () => {
+  test('compares nested objects and arrays structurally', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(isDeepEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(isDeepEqual(null, {})).toBe(false);
+  });
+
+  test('treats keys set to undefined as missing', () => {
+    expect(isDeepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+  });
+});
+
+describe('deepClone', () => {
+  test('copies nested objects and arrays', () => {
+    const value = { a: [1, { b: 2 }], c: { d: null } };
+
+    const copy = deepClone(value);
+    (copy.a[1] as { b: number }).b = 3;
+
+    expect(copy).toEqual({ a: [1, { b: 3 }], c: { d: null } });
+    expect(value).toEqual({ a: [1, { b: 2 }], c: { d: null } });
+    expect(copy.c).not.toBe(value.c);
+  });
+});
+
+describe('deepMerge', () => {
+  test('merges nested objects, replaces arrays and removes undefined keys', () => {
+    const target: Record<string, unknown> = { a: { b: 1, c: 2 }, list: [1, 2], gone: true };
+
+    expect(deepMerge(target, { a: { c: 3 }, list: [3], gone: undefined })).toEqual({ a: { b: 1, c: 3 }, list: [3] });
+    expect(target).toEqual({ a: { b: 1, c: 2 }, list: [1, 2], gone: true });
+  });
+});
+
+describe('stableStringify', () => {
+  test('sorts object keys at every level', () => {
+    expect(stableStringify({ b: 1, a: { d: [{ f: 1, e: 2 }], c: 3 } })).toBe('{"a":{"c":3,"d":[{"e":2,"f":1}]},"b":1}');
+    expect(stableStringify({ a: 1, b: 2 })).toBe(stableStringify({ b: 2, a: 1 }));
+  });
+});
+
+describe('truncateText', () => {
+  test('keeps strings which fit', () => {
+    expect(truncateText('Short', 5)).toBe('Short');
+  });
+
+  test('cuts to the limit including the ellipsis', () => {
+    expect(truncateText('Never Gonna Give You Up', 10)).toBe('Never Gon…');
+    expect(truncateText('Never Gonna Give You Up', 10, '...')).toBe('Never G...');
+  });
+
+  test('never splits a grapheme cluster', () => {
+    // The family emoji is five code points joined into one character
+    expect(truncateText('ab👨‍👩‍👧', 6)).toBe('ab…');
+    expect(truncateText('ééé', 4)).toBe('é…');
+  });
+
+  test('drops an ellipsis which does not fit itself', () => {
+    expect(truncateText('abcdef', 3, '...')).toBe('abc');
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { ActivityType, ActivityValidationError, Client, Command, MockDiscordServer, OpCode, PresenceBuilder, validateActivity, type ActivityPayload } from '../src';
+
+describe('validateActivity', () => {
+  test('accepts a valid activity', () => {
+    expect(
+      validateActivity({
+        type: ActivityType.Listening,
+        details: 'Some song',
+        state: 'Some artist',
+        timestamps: { start: 1_700_000_000, end: 1_700_000_200 },
+        assets: { large_image: 'cover', large_text: 'Album', small_image: 'https://example.com/icon.png' },
+        party: { id: 'party-1', size: [2, 4] },
+        buttons: [{ label: 'Listen', url: 'https://example.com' }],
+      }),
+    ).toEqual([]);
+  });
+
+  test('reports every problem with its path', () => {
+    const activity = {
+      type: ActivityType.Streaming,
+      details: 'x',
+      timestamps: { start: 200, end: 100 },
+      assets: { large_image: 'http://example.com/cover.png' },
+      party: { id: ' ', size: [5, 4] },
+      buttons: [
+        { label: 'One', url: 'http://example.com' },
+        { label: 'Two', url: 'https://example.com' },
+        { label: 'Three', url: 'https://example.com' },
+      ],
+    } as ActivityPayload;
+
+    expect(validateActivity(activity).map(({ path }) => path)).toEqual([
+      'type',
+      'details',
+      'timestamps.end',
+      'assets.large_image',
+      'party.id',
+      'party.size',
+      'buttons',
+      'buttons[0].url',
+    ]);
+  });
+
+  test('counts lengths in code points', () => {
+    expect(validateActivity({ details: '🎮🎮' })).toEqual([]);
+    expect(validateActivity({ details: '🎮'.repeat(128) })).toEqual([]);
+    expect(validateActivity({ details: '🎮'.repeat(129) })).toEqual([{ path: 'details', message: 'Must be 128 characters or fewer.' }]);
+    expect(() => new PresenceBuilder({ logger: false }).setDetails('🎮'.repeat(128))).not.toThrow();
+  });
+
+  test('is available on the builder', () => {
+    expect(new PresenceBuilder({ logger: false }).setParty('', 5, 4).validate().map(({ path }) => path)).toEqual(['party.id', 'party.size']);
+  });
+});
+
+describe('strict mode', () => {
+  let server: MockDiscordServer;
+  let client: Client;
+
+  afterEach(async () => {
+    await client?.destroy();
+    await server?.close();
+  });
+
+  /**
+   * Activity updates the mock server received.
+   */
+  const activityFrames = () => server.frames.filter((frame) => frame.op === OpCode.FRAME && frame.payload.cmd === Command.SET_ACTIVITY);
+
+  test('rejects invalid activities without sending them', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    client = new Client({ pathList: [server.pathData], logger: false, strict: true });
+    await client.login({ clientId: '123' });
+
+    const error = await client.setActivity({ details: 'x' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ActivityValidationError);
+    expect(error.issues).toEqual([{ path: 'details', message: 'Must be at least 2 characters.' }]);
+    expect(error.message).toBe('Invalid activity: details: Must be at least 2 characters.');
+    expect(activityFrames()).toEqual([]);
+  });
+
+  test('sends invalid activities when disabled', async () => {
+    server = new MockDiscordServer();
+    await server.listen();
+    client = new Client({ pathList: [server.pathData], logger: false });
+    await client.login({ clientId: '123' });
+
+    await client.setActivity({ details: 'x' });
+
+    expect(activityFrames()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import { Client, ConnectionState, UnsupportedTransportError, WebSocketTransport, type WebSocketConstructor } from '../src';
+
+let server: ReturnType<typeof Bun.serve> | undefined;
+let client: Client | undefined;
+
+/**
+ * Starts a stand-in for Discord's RPC WebSocket server, which sends READY as soon as the socket opens.
+ */
+const serve = () =>
+  Bun.serve({
+    port: 0,
+    fetch: (req, srv) => (srv.upgrade(req) ? undefined : new Response('Upgrade required', { status: 426 })),
+    websocket: {
+      open: (ws) => {
+        ws.send(JSON.stringify({ cmd: 'DISPATCH', evt: 'READY', data: { v: 1, config: {}, user: { id: '1', username: 'ws' } } }));
+      },
+      message: (ws, message) => {
+        const frame = JSON.parse(String(message));
+        ws.send(JSON.stringify({ cmd: frame.cmd, data: frame.args?.activity ?? null, evt: null, nonce: frame.nonce }));
+      },
+    },
+  });
+
+afterEach(async () => {
+  await client?.destroy();
+  server?.stop(true);
+  client = undefined;
+  server = undefined;
+});
+
+describe('WebSocketTransport', () => {
+  test('logs in when READY arrives without a handshake', async () => {
+    server = serve();
+    client = new Client({ transport: new WebSocketTransport({ ports: [server.port!] }), logger: false });
+
+    const response = await client.login({ clientId: '123' });
+
+    expect(response.user.username).toBe('ws');
+    expect(client.state).toBe(ConnectionState.Ready);
+    expect(await client.setActivity({ details: 'Over WebSocket' })).toEqual({ details: 'Over WebSocket' });
+  });
+
+  test('throws without a WebSocket implementation', () => {
+    const WebSocket = globalThis.WebSocket;
+    // Simulate Node.js before 22
+    (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket = undefined;
+
+    try {
+      expect(() => new WebSocketTransport()).toThrow(UnsupportedTransportError);
+      expect(() => new Client({ transport: 'websocket' })).toThrow(UnsupportedTransportError);
+    } finally {
+      globalThis.WebSocket = WebSocket;
+    }
+  });
+
+  test('gives up reconnecting when the transport is unsupported', async () => {
+    client = new Client({
+      transport: {
+        connect: async () => {
+          throw new UnsupportedTransportError('Not available here.');
+        },
+        send: async () => {},
+        onData: () => {},
+        onClose: () => {},
+        destroy: () => {},
+      },
+      logger: false,
+    });
+
+    await expect(client.login({ clientId: '123' })).rejects.toThrow(UnsupportedTransportError);
+  });
+});